@@ -1,290 +1,1001 @@
-import React, { useState, useEffect, useCallback, useMemo } from "react"
-import { Participant, Winner, AppState } from "./types"
+import React, {
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+  SetStateAction,
+} from "react"
 import {
-  PRIZES,
-  APP_STORAGE_KEY,
-  DEFAULT_CONGRATS_MESSAGE,
-  DEFAULT_PARTICIPANTS,
-} from "./constants"
-import confetti from "canvas-confetti"
-
-// --- Cookie Helpers ---
-const setCookie = (name: string, value: string, days: number = 7) => {
-  const expires = new Date(Date.now() + days * 864e5).toUTCString()
-  document.cookie = `${name}=${encodeURIComponent(
-    value
-  )}; expires=${expires}; path=/; SameSite=Lax`
-}
+  Winner,
+  AppState,
+  DrawState,
+  KeyAction,
+  LogEntry,
+  LotteryEvent,
+  Participant,
+} from "./types"
+import { DEFAULT_CONGRATS_MESSAGE, DEFAULT_KEYMAP } from "./constants"
+import { Button } from "./components/Button"
+import { REVEAL_ANIMATIONS, RevealStage } from "./components/RevealAnimation"
+import {
+  SUSPENSE_FINALE_MS,
+  SUSPENSE_STEPS,
+  SuspenseReveal,
+} from "./components/SuspenseReveal"
+import { WinnerModal } from "./components/WinnerModal"
+import { NextPrize } from "./components/NextPrize"
+import { PresenterPanel } from "./components/PresenterPanel"
+import { KeymapHelp } from "./components/KeymapHelp"
+import { triggerCelebration } from "./services/celebration"
+import { SetupScreen } from "./components/SetupScreen"
+import { ImportMode } from "./components/ParticipantImport"
+import { ImportedRow } from "./services/participantImport"
+import { parseParticipant } from "./services/participants"
+import { validateParticipants } from "./services/participantValidation"
+import { prizeWinners, totalUnits } from "./services/prizes"
+import { buildDrawPlan, emptyPoolReason, splitDrawablePlan } from "./services/drawPlan"
+import { DrawPlanPanel } from "./components/DrawPlan"
+import { RecoveryModal } from "./components/RecoveryModal"
+import { eligibleParticipants, generateSeed, pickWinners } from "./services/drawEngine"
+import { eligibleForPrize } from "./services/eligibility"
+import { revealStyleFor } from "./services/reveal"
+import { createSoundEngine } from "./services/sound"
+import {
+  drawableParticipants,
+  exclusionsFromRows,
+  exclusionsFromWinners,
+  mergeExclusions,
+} from "./services/exclusions"
+import { createCommitment } from "./services/fairness"
+import { appendLogEntry, checkLog, drawLogData, voidLogData } from "./services/eventLog"
+import {
+  CommitmentPanel,
+  PublishCommitment,
+  SeedRevealPanel,
+} from "./components/Fairness"
+import { WinnerExport } from "./components/WinnerExport"
+import {
+  BatchReveal,
+  BatchSizeInput,
+  BatchSummaryModal,
+  batchRevealDuration,
+} from "./components/BatchReveal"
+import { createDefaultState, loadState, saveState } from "./services/storage"
+import { drawnWinners, eventYear } from "./services/events"
+import {
+  AudienceState,
+  PresentationMessage,
+  openPresentationChannel,
+  postPresentation,
+} from "./services/presentation"
+import {
+  RemoteCommand,
+  RemoteConnection,
+  RemoteSession,
+  RemoteStatus,
+  RemoteStopReason,
+  connectRemoteServer,
+} from "./services/remoteControl"
+import {
+  actionForKey,
+  isPressKey,
+  isTypingTarget,
+  toggleFullscreen,
+  withDefaultKeys,
+} from "./services/keymap"
 
-const getCookie = (name: string) => {
-  return document.cookie.split("; ").reduce((r, v) => {
-    const parts = v.split("=")
-    return parts[0] === name ? decodeURIComponent(parts[1]) : r
-  }, "")
-}
+const DEFAULT_STATE = createDefaultState()
+const NO_SHOW_REASON = "Ирээгүй"
 
-// --- Sub-components ---
-const Button: React.FC<{
-  onClick: () => void
-  children: React.ReactNode
-  disabled?: boolean
-  variant?: "primary" | "secondary" | "danger" | "ghost"
-  className?: string
-  size?: "sm" | "md"
-}> = ({
-  onClick,
-  children,
-  disabled,
-  variant = "primary",
-  className = "",
-  size = "md",
-}) => {
-  const baseStyles =
-    "rounded-full font-bold uppercase tracking-widest transition-all duration-300 transform active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
-  const sizes = { sm: "px-6 py-2 text-[10px]", md: "px-10 py-4 text-sm" }
-  const variants = {
-    primary: "bg-[#1d58f4] hover:bg-[#3b6fff] text-white shadow-xl shadow-blue-500/20",
-    secondary: "bg-gray-800 hover:bg-gray-700 text-white shadow-lg",
-    danger: "bg-red-900/40 hover:bg-red-700/60 text-red-200 border border-red-500/30",
-    ghost: "bg-white/10 hover:bg-white/20 text-white border border-white/10",
-  }
-  return (
-    <button
-      onClick={onClick}
-      disabled={disabled}
-      className={`${baseStyles} ${variants[variant]} ${sizes[size]} ${className}`}>
-      {children}
-    </button>
+export default function App() {
+  const [isLoaded, setIsLoaded] = useState(false)
+  // Set when the stored state can't be read; nothing is saved over it until the host
+  // restores a backup or chooses to start again
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [storageError, setStorageError] = useState<string | null>(null)
+  // Log check results from load time, keyed by event id
+  const [logProblems, setLogProblems] = useState<Record<string, string[]>>({})
+  const [events, setEvents] = useState<LotteryEvent[]>(DEFAULT_STATE.events)
+  const [activeEventId, setActiveEventId] = useState(DEFAULT_STATE.activeEventId)
+  const [pickedPrizeId, setPickedPrizeId] = useState<number | null>(null)
+  const [appState, setAppState] = useState<AppState>(AppState.SETUP)
+  const [showWinnerModal, setShowWinnerModal] = useState(false)
+  const [lastWinner, setLastWinner] = useState<Winner | null>(null)
+  // Batch draws: the grid being revealed and the list shown in the summary afterwards
+  const [batchSize, setBatchSize] = useState(1)
+  const [revealingBatch, setRevealingBatch] = useState<Winner[] | null>(null)
+  const [lastBatch, setLastBatch] = useState<Winner[] | null>(null)
+  const [drawnParticipant, setDrawnParticipant] = useState<Participant | null>(null)
+  // Step of the host-driven big-prize reveal; null when it isn't running
+  const [suspenseStage, setSuspenseStage] = useState<number | null>(null)
+  const [audienceConnected, setAudienceConnected] = useState(false)
+  const presentation = useRef<BroadcastChannel | null>(null)
+  // Console token printed by `npm run remote`; the remote stays off until the host
+  // enters it
+  const [remoteToken, setRemoteToken] = useState<string | null>(null)
+  const [remoteStopped, setRemoteStopped] = useState<RemoteStopReason | null>(null)
+  const [remoteSession, setRemoteSession] = useState<RemoteSession | null>(null)
+  const remote = useRef<RemoteConnection | null>(null)
+  const [keymap, setKeymap] = useState(DEFAULT_KEYMAP)
+  const [showKeymap, setShowKeymap] = useState(false)
+  // Blanks the projected screen between segments; the draw state is untouched
+  const [blackout, setBlackout] = useState(false)
+  const latestKeyAction = useRef<(action: KeyAction) => void>(() => {})
+  const sound = useMemo(() => createSoundEngine(), [])
+  const previousAppState = useRef(appState)
+
+  const activeEvent = events.find((e) => e.id === activeEventId) || events[0]
+  const {
+    participants,
+    acknowledgedIssues,
+    exclusions,
+    prizes,
+    drawPlan: drawPlanSettings,
+    winners,
+  } = activeEvent
+
+  // Field setters scoped to the active event, shaped like useState setters
+  const patchActiveEvent = useCallback(
+    (patch: (event: LotteryEvent) => Partial<LotteryEvent>) =>
+      setEvents((prev) =>
+        prev.map((e) => (e.id === activeEventId ? { ...e, ...patch(e) } : e))
+      ),
+    [activeEventId]
   )
-}
+  // Log appends hash asynchronously, so they run one after another, each on the log
+  // the previous one left; two actions close together would otherwise both chain onto
+  // the same entry. `task` returns the fields to store with the new log, or null.
+  const logQueue = useRef<Promise<unknown>>(Promise.resolve())
+  const latestEvents = useRef(events)
+  latestEvents.current = events
+  const withLatestLog = useCallback(
+    (
+      task: (
+        log: LogEntry[],
+        events: LotteryEvent[]
+      ) => Promise<Partial<LotteryEvent> | null>
+    ) => {
+      const eventId = activeEventId
+      const run = async () => {
+        const current = latestEvents.current
+        const event = current.find((e) => e.id === eventId)
+        if (!event) return null
+        const patch = await task(event.log, current)
+        if (!patch) return null
+        const apply = (list: LotteryEvent[]) =>
+          list.map((e) => (e.id === eventId ? { ...e, ...patch } : e))
+        // The next queued task may run before React renders this update
+        latestEvents.current = apply(latestEvents.current)
+        setEvents(apply)
+        return patch
+      }
+      const result = logQueue.current.then(run)
+      logQueue.current = result.catch(() => {})
+      return result
+    },
+    [activeEventId]
+  )
+  const updateActiveEvent = <K extends keyof DrawState>(
+    key: K,
+    update: SetStateAction<DrawState[K]>
+  ) =>
+    patchActiveEvent((e) => ({
+      [key]:
+        typeof update === "function"
+          ? (update as (prev: DrawState[K]) => DrawState[K])(e[key])
+          : update,
+    }))
+  // The commitment covers the participant list, so any edit invalidates it
+  const setParticipants = (update: SetStateAction<DrawState["participants"]>) => {
+    updateActiveEvent("participants", update)
+    updateActiveEvent("commitment", null)
+  }
+  // Exclusions change the list the commitment covers, so they invalidate it too
+  const setExclusions = (update: SetStateAction<DrawState["exclusions"]>) => {
+    updateActiveEvent("exclusions", update)
+    updateActiveEvent("commitment", null)
+  }
+  const setAcknowledgedIssues = (update: SetStateAction<string[]>) =>
+    updateActiveEvent("acknowledgedIssues", update)
+  const setPrizes = (update: SetStateAction<DrawState["prizes"]>) =>
+    updateActiveEvent("prizes", update)
+  const setDrawPlanSettings = (update: SetStateAction<DrawState["drawPlan"]>) =>
+    updateActiveEvent("drawPlan", update)
+  const setNotes = (notes: string) => updateActiveEvent("notes", notes)
+  const setSoundSettings = (update: SetStateAction<DrawState["sound"]>) =>
+    updateActiveEvent("sound", update)
 
-const NameRoller: React.FC<{ names: string[]; winnerName: string | null }> = ({
-  names,
-  winnerName,
-}) => {
-  const [isSpinning, setIsSpinning] = useState(false)
-  const spinList = useMemo(() => {
-    const shuffled = [...names].sort(() => 0.5 - Math.random())
-    const subset = shuffled.slice(0, 100)
-    if (winnerName) subset[45] = winnerName
-    return subset
-  }, [winnerName, names])
+  useEffect(() => {
+    loadState()
+      .then(async (saved) => {
+        if (!saved) return
+        const checks = await Promise.all(
+          saved.events.map((e) => checkLog(e.log, drawnWinners(e)))
+        )
+        setLogProblems(
+          Object.fromEntries(saved.events.map((e, i) => [e.id, checks[i].problems]))
+        )
+        setEvents(saved.events)
+        setActiveEventId(saved.activeEventId)
+        setKeymap(withDefaultKeys(saved.keymap))
+        const event = saved.events.find((e) => e.id === saved.activeEventId)
+        // A draw already in progress skips the setup screen
+        if (!event) return
+        if (event.pendingDraw) setAppState(AppState.READY)
+        else if (event.winners.length > 0) {
+          const { drawable } = splitDrawablePlan(
+            buildDrawPlan(event.prizes, event.winners, event.drawPlan.order),
+            drawableParticipants(event.participants, event.exclusions),
+            event.winners,
+            event.drawPlan.repeatPolicy
+          )
+          setAppState(drawable.length === 0 ? AppState.FINISHED : AppState.READY)
+        }
+      })
+      .catch((e) => {
+        console.error("State loading error:", e)
+        setLoadError(e instanceof Error ? e.message : String(e))
+      })
+      .finally(() => setIsLoaded(true))
+  }, [])
 
   useEffect(() => {
-    if (winnerName) {
-      const timer = setTimeout(() => setIsSpinning(true), 50)
-      return () => clearTimeout(timer)
-    } else {
-      setIsSpinning(false)
+    // Saving before the load finishes would overwrite the stored state with defaults
+    if (!isLoaded || loadError) return
+    saveState({ activeEventId, events, keymap })
+      .then(() => setStorageError(null))
+      .catch((e) => setStorageError(e.message))
+  }, [isLoaded, loadError, activeEventId, events, keymap])
+
+  const handleDiscardStoredState = () => {
+    if (!window.confirm("Хадгалсан өгөгдлийг орхиж, шинээр эхлэх үү?")) return
+    setLoadError(null)
+  }
+
+  const handleCreateEvent = (event: LotteryEvent) => {
+    setEvents((prev) => [...prev, event])
+    handleSwitchEvent(event.id)
+  }
+
+  const handleSwitchEvent = (eventId: string) => {
+    setActiveEventId(eventId)
+    setPickedPrizeId(null)
+    setLastWinner(null)
+  }
+
+  const handleArchiveEvent = (eventId: string, archived: boolean) => {
+    setEvents((prev) => prev.map((e) => (e.id === eventId ? { ...e, archived } : e)))
+  }
+
+  // A restored event replaces the local copy with the same id, if there is one
+  const handleRestoreEvent = (event: LotteryEvent) => {
+    const exists = events.some((e) => e.id === event.id)
+    if (exists && !window.confirm(`"${event.name}" арга хэмжээг нөөцөөр солих уу?`))
+      return
+    setEvents((prev) =>
+      exists ? prev.map((e) => (e.id === event.id ? event : e)) : [...prev, event]
+    )
+    setLogProblems((prev) => ({ ...prev, [event.id]: [] }))
+    handleSwitchEvent(event.id)
+    setLoadError(null)
+  }
+
+  // Everyone who can actually be drawn in this event
+  const drawPool = useMemo(
+    () => drawableParticipants(participants, exclusions),
+    [participants, exclusions]
+  )
+  const drawPoolNames = useMemo(() => drawPool.map((p) => p.name), [drawPool])
+
+  const participantIssues = useMemo(
+    () =>
+      validateParticipants(participants).filter(
+        (issue) => !acknowledgedIssues.includes(issue.key)
+      ),
+    [participants, acknowledgedIssues]
+  )
+
+  const handleImport = async (rows: ImportedRow[], mode: ImportMode) => {
+    const parsed = rows.map((row) => parseParticipant(`${row.name}-${row.memberNo}`))
+    // buildImport already rejects these; an import never loses rows without saying so
+    const unparsed = rows.filter((_, i) => !parsed[i]).map((row) => row.line)
+    if (unparsed.length > 0) {
+      setStorageError(`Импорт зогслоо, задлах боломжгүй мөр: ${unparsed.join(", ")}`)
+      return
     }
-  }, [winnerName])
+    const imported = rows.map((row, i) => ({
+      ...parsed[i],
+      ...(row.tickets > 1 && { tickets: row.tickets }),
+      ...(row.tags.length > 0 && { tags: row.tags }),
+      ...(row.pool && { pool: row.pool }),
+    }))
+    const next = mode === "append" ? [...participants, ...imported] : imported
+    await withLatestLog(async (log) => ({
+      log: await appendLogEntry(log, "import", {
+        mode,
+        imported: imported.length,
+        total: next.length,
+      }),
+    }))
+    setParticipants(next)
+  }
 
-  return (
-    <div className='relative h-[250px] w-full overflow-hidden flex flex-col items-center bg-black/40 rounded-3xl border border-white/5 shadow-inner'>
-      <div className='absolute top-1/2 left-0 w-full h-[70px] -translate-y-1/2 border-y border-blue-500/30 bg-blue-500/5 z-10 pointer-events-none'>
-        <div className='absolute inset-0 bg-gradient-to-r from-blue-500/10 via-transparent to-blue-500/10' />
-      </div>
-      <div className='absolute top-0 left-0 w-full h-20 bg-gradient-to-b from-[#0a0a0a] to-transparent z-10 pointer-events-none' />
-      <div className='absolute bottom-0 left-0 w-full h-20 bg-gradient-to-t from-[#0a0a0a] to-transparent z-10 pointer-events-none' />
-      <div
-        className='flex flex-col transition-transform duration-[5000ms] ease-[cubic-bezier(0.15,0,0.05,1)]'
-        style={{
-          transform: isSpinning
-            ? `translateY(calc(-45 * 60px + 95px))`
-            : "translateY(0px)",
-        }}>
-        {spinList.map((name, i) => (
-          <div
-            key={i}
-            className='h-[60px] flex items-center justify-center text-xl md:text-2xl font-mono text-[#f1f1f1] opacity-80'>
-            {name}
-          </div>
-        ))}
-      </div>
-    </div>
+  const handleImportExclusions = async (
+    rows: ImportedRow[],
+    mode: ImportMode,
+    reason: string
+  ) => {
+    const imported = exclusionsFromRows(rows, reason)
+    const next = mergeExclusions(mode === "append" ? exclusions : [], imported)
+    await withLatestLog(async (log) => ({
+      log: await appendLogEntry(log, "import", {
+        list: "exclusions",
+        mode,
+        imported: imported.length,
+        total: next.length,
+      }),
+    }))
+    setExclusions(next)
+  }
+
+  const handleCarryOverWinners = async (eventId: string) => {
+    const source = events.find((e) => e.id === eventId)
+    if (!source) return
+    const next = mergeExclusions(exclusions, exclusionsFromWinners(source))
+    await withLatestLog(async (log) => ({
+      log: await appendLogEntry(log, "import", {
+        list: "exclusions",
+        fromEvent: source.id,
+        imported: next.length - exclusions.length,
+        total: next.length,
+      }),
+    }))
+    setExclusions(next)
+  }
+
+  const handleRemoveExclusion = (memberNo: string) => {
+    setExclusions(exclusions.filter((e) => e.memberNo !== memberNo))
+  }
+
+  const handleRemoveParticipants = (indices: number[]) => {
+    setParticipants(participants.filter((_, i) => !indices.includes(i)))
+  }
+
+  const handleAcknowledgeIssue = (key: string) => {
+    setAcknowledgedIssues([...acknowledgedIssues, key])
+  }
+
+  const remainingPrizes = useMemo(
+    () => buildDrawPlan(prizes, winners, drawPlanSettings.order),
+    [prizes, winners, drawPlanSettings.order]
   )
-}
+  const prizeUnits = totalUnits(prizes)
+  const prizeWinnerCount = prizeWinners(winners).length
+  // Prizes whose pool has run dry are passed over rather than holding up the rest
+  const { drawable: drawablePrizes, skipped: skippedPrizes } = useMemo(
+    () =>
+      splitDrawablePlan(
+        remainingPrizes,
+        drawPool,
+        winners,
+        drawPlanSettings.repeatPolicy
+      ),
+    [remainingPrizes, drawPool, winners, drawPlanSettings.repeatPolicy]
+  )
+  const remainingUnits = drawablePrizes.reduce((sum, entry) => sum + entry.remaining, 0)
 
-const WinnerModal: React.FC<{ winner: Winner | null; onClose: () => void }> = ({
-  winner,
-  onClose,
-}) => {
-  if (!winner) return null
-  return (
-    <div className='fixed inset-0 z-50 flex items-center justify-center p-4'>
-      <div
-        className='absolute inset-0 bg-black/95 backdrop-blur-xl animate-in fade-in duration-500'
-        onClick={onClose}
-      />
-      <div className='relative w-full max-w-md bg-gradient-to-b from-white/[0.1] to-transparent border border-white/20 p-8 rounded-[2rem] shadow-2xl flex flex-col items-center text-center animate-in zoom-in-95 fade-in duration-500'>
-        <div className='absolute -top-6 bg-[#1d58f4] p-3 rounded-xl shadow-xl rotate-3'>
-          <svg
-            xmlns='http://www.w3.org/2000/svg'
-            className='h-6 w-6 text-white'
-            fill='none'
-            viewBox='0 0 24 24'
-            stroke='currentColor'>
-            <path
-              strokeLinecap='round'
-              strokeLinejoin='round'
-              strokeWidth={2}
-              d='M5 3v4M3 5h4M6 17v4m-2-2h4m5-16l2.286 6.857L21 12l-5.714 2.143L13 21l-2.286-6.857L5 12l5.714-2.143L13 3z'
-            />
-          </svg>
-        </div>
-        <div className='text-[80px] mb-4 drop-shadow-[0_15px_30px_rgba(29,88,244,0.3)] animate-bounce'>
-          {winner.prize.icon}
-        </div>
-        <h2 className='text-4xl font-black text-white mb-2 tracking-tighter leading-tight'>
-          {winner.participant.name}
-        </h2>
-        <div className='mb-6'>
-          <p className='text-gray-400 text-[10px] uppercase tracking-[0.2em] mb-1 font-bold'>
-            Та дараах шагналын эзэн боллоо
-          </p>
-          <div className='text-2xl font-bold text-[#4f83ff]'>{winner.prize.name}</div>
-        </div>
-        <p className='text-base italic text-gray-200 font-light max-w-sm mb-8'>
-          "{winner.congratsMessage || DEFAULT_CONGRATS_MESSAGE}"
-        </p>
-        <Button onClick={onClose} variant='primary' size='sm'>
-          Хаах
-        </Button>
-      </div>
-    </div>
+  // A prize put back by a no-show comes first, then the host's ad hoc pick, then the plan
+  const redrawPrize = drawablePrizes.find(
+    (entry) => entry.prize.id === activeEvent.redrawPrizeId
+  )?.prize
+  const pickedPrize = drawPlanSettings.allowAdHoc
+    ? drawablePrizes.find((entry) => entry.prize.id === pickedPrizeId)?.prize
+    : undefined
+  const nextPrize = redrawPrize || pickedPrize || drawablePrizes[0]?.prize
+  const nextPrizeRemaining =
+    remainingPrizes.find((entry) => entry.prize.id === nextPrize?.id)?.remaining || 0
+  // People the next prize's rules allow who have not won yet
+  const nextPrizePoolSize = useMemo(
+    () =>
+      nextPrize
+        ? eligibleParticipants(
+            eligibleForPrize(drawPool, nextPrize),
+            winners,
+            nextPrize,
+            drawPlanSettings.repeatPolicy
+          ).length
+        : 0,
+    [nextPrize, drawPool, winners, drawPlanSettings.repeatPolicy]
   )
-}
+  const batchLimit = Math.min(nextPrizeRemaining, nextPrizePoolSize)
+  const drawCount = Math.max(1, Math.min(batchSize, batchLimit))
 
-export default function App() {
-  const initialParticipants = useMemo(
-    () => DEFAULT_PARTICIPANTS.map((name, i) => ({ id: `p-${i}`, name })),
-    []
+  const pendingDraw = activeEvent.pendingDraw || null
+  // A saved draw being replayed may be for another prize than the plan's next one
+  const revealStyle = revealStyleFor(
+    pendingDraw?.[0]?.prize || nextPrize,
+    drawPlanSettings
   )
-  const [participants] = useState<Participant[]>(initialParticipants)
-  const [winners, setWinners] = useState<Winner[]>([])
-  const [appState, setAppState] = useState<AppState>(AppState.READY)
-  const [showWinnerModal, setShowWinnerModal] = useState(false)
-  const [lastWinner, setLastWinner] = useState<Winner | null>(null)
-  const [currentDrawnName, setCurrentDrawnName] = useState<string | null>(null)
+  const commitment = activeEvent.commitment || null
 
-  useEffect(() => {
-    const saved = getCookie(APP_STORAGE_KEY)
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved)
-        setWinners(parsed.winners || [])
-        if (parsed.winners?.length >= PRIZES.length) setAppState(AppState.FINISHED)
-      } catch (e) {
-        console.error("Cookie loading error:", e)
-      }
+  const handlePublishCommitment = async () => {
+    try {
+      const next = await createCommitment(
+        drawPool,
+        prizes,
+        drawPlanSettings,
+        activeEvent.seed
+      )
+      await withLatestLog(async (log) => ({
+        commitment: next,
+        log: await appendLogEntry(log, "commit", {
+          hash: next.hash,
+          participantsHash: next.participantsHash,
+          rulesHash: next.rulesHash,
+        }),
+      }))
+    } catch (e) {
+      console.error("Commitment error:", e)
+      setStorageError(e instanceof Error ? e.message : String(e))
     }
-  }, [])
+  }
 
-  useEffect(() => {
-    if (winners.length > 0) setCookie(APP_STORAGE_KEY, JSON.stringify({ winners }), 7)
-  }, [winners])
-
-  const remainingPrizes = useMemo(() => {
-    const wonPrizeIds = winners.map((w) => w.prize.id)
-    return PRIZES.filter((p) => !wonPrizeIds.includes(p.id)).sort((a, b) => b.id - a.id)
-  }, [winners])
-
-  const nextPrize = remainingPrizes[0]
-
-  const triggerCelebration = (isBigWinner: boolean) => {
-    const confettiColors = ["#1d58f4", "#ffffff", "#4f83ff"]
-    if (isBigWinner) {
-      const end = Date.now() + 4000
-      const frame = () => {
-        confetti({
-          particleCount: 3,
-          angle: 60,
-          spread: 55,
-          origin: { x: 0 },
-          colors: confettiColors,
-        })
-        confetti({
-          particleCount: 3,
-          angle: 120,
-          spread: 55,
-          origin: { x: 1 },
-          colors: confettiColors,
-        })
-        if (Date.now() < end) requestAnimationFrame(frame)
-      }
-      frame()
+  // Allowed until the first draw; the log keeps which commitment was taken back
+  const handleWithdrawCommitment = () =>
+    withLatestLog(async (log, current) => {
+      const hash = current.find((e) => e.id === activeEventId)?.commitment?.hash
+      if (!hash) return null
+      return { commitment: null, log: await appendLogEntry(log, "withdraw", { hash }) }
+    })
+
+  // A batch goes into the winner list in one update, never partially
+  const commitWinners = (pending: Winner[]) => {
+    const drawnAt = Date.now()
+    const newWinners = pending.map((w): Winner => ({ ...w, drawnAt }))
+    patchActiveEvent((e) => ({
+      winners: [...e.winners, ...newWinners],
+      pendingDraw: null,
+      redrawPrizeId: null,
+    }))
+    setPickedPrizeId(null)
+    setLastWinner(newWinners.length === 1 ? newWinners[0] : null)
+    setLastBatch(newWinners.length > 1 ? newWinners : null)
+    setShowWinnerModal(true)
+    triggerCelebration(newWinners.some((w) => w.prize.isBigWinner))
+
+    // We wait until modal closes to set AppState.FINISHED
+    setAppState(AppState.READY)
+  }
+
+  // Plays the prize's reveal animation (or the grid, for a batch) for a result that is
+  // already saved, then commits it once the animation says it is done. A big prize
+  // drawn alone waits for the host instead, step by step.
+  const revealWinners = (pending: Winner[]) => {
+    setAppState(AppState.DRAWING)
+    if (pending.length === 1 && pending[0].prize.isBigWinner) {
+      setDrawnParticipant(pending[0].participant)
+      setSuspenseStage(0)
+    } else if (pending.length === 1) {
+      const { participant, prize } = pending[0]
+      const animation = REVEAL_ANIMATIONS[revealStyleFor(prize, drawPlanSettings)]
+      setDrawnParticipant(participant)
+      setTimeout(
+        () => commitWinners(pending),
+        animation.duration(drawPoolNames, participant)
+      )
     } else {
-      confetti({
-        particleCount: 150,
-        spread: 70,
-        origin: { y: 0.6 },
-        colors: confettiColors,
-      })
+      setRevealingBatch(pending)
+      setTimeout(() => commitWinners(pending), batchRevealDuration(pending.length))
     }
   }
 
-  const drawWinner = useCallback(() => {
-    // Check if we have a prize to give
-    if (!nextPrize || participants.length === 0 || appState === AppState.DRAWING) return
+  // The pending draw is saved before the first step, so a reload mid-way replays it
+  const canAdvanceSuspense = suspenseStage !== null && suspenseStage < SUSPENSE_STEPS
+  const handleAdvanceSuspense = () => {
+    if (!canAdvanceSuspense || !pendingDraw) return
+    const next = suspenseStage + 1
+    setSuspenseStage(next)
+    if (next < SUSPENSE_STEPS) return
+    const pending = pendingDraw
+    setTimeout(() => {
+      setSuspenseStage(null)
+      commitWinners(pending)
+    }, SUSPENSE_FINALE_MS)
+  }
 
-    const eligible = participants.filter(
-      (p) => !winners.find((w) => w.participant.id === p.id)
+  const drawWinner = useCallback(async () => {
+    // Check if we have a prize to give
+    if (
+      !nextPrize ||
+      nextPrizePoolSize === 0 ||
+      appState === AppState.DRAWING ||
+      pendingDraw ||
+      !commitment ||
+      activeEvent.seedRevealed
     )
-    if (eligible.length === 0) return
-
-    const winnerParticipant = eligible[Math.floor(Math.random() * eligible.length)]
-
-    // CAPTURE CURRENT PRIZE info so it doesn't vanish mid-animation
-    const prizeForThisDraw = nextPrize
+      return
 
     setAppState(AppState.DRAWING)
-    setCurrentDrawnName(winnerParticipant.name)
+    // CAPTURE CURRENT PRIZE info so it doesn't vanish mid-animation
+    let pending: Winner[]
+    try {
+      pending = await pickWinners(
+        drawPool,
+        winners,
+        activeEvent.seed,
+        nextPrize,
+        drawPlanSettings.repeatPolicy,
+        drawCount,
+        (participant, audit) => ({
+          participant,
+          prize: nextPrize,
+          drawnAt: Date.now(),
+          congratsMessage: DEFAULT_CONGRATS_MESSAGE,
+          audit,
+        })
+      )
+    } catch (e) {
+      setStorageError(e instanceof Error ? e.message : String(e))
+      setAppState(AppState.READY)
+      return
+    }
+    if (pending.length === 0) {
+      setAppState(AppState.READY)
+      return
+    }
 
-    setTimeout(() => {
-      const newWinner: Winner = {
-        participant: winnerParticipant,
-        prize: prizeForThisDraw,
-        drawnAt: Date.now(),
-        congratsMessage: DEFAULT_CONGRATS_MESSAGE,
+    // Write the result to storage before anyone sees it, so a reload replays
+    // these winners instead of drawing new ones
+    const stored = await withLatestLog(async (log, current) => {
+      for (const winner of pending) {
+        log = await appendLogEntry(log, "draw", drawLogData(winner))
       }
-
-      setWinners((prev) => [...prev, newWinner])
-      setLastWinner(newWinner)
-      setShowWinnerModal(true)
-      triggerCelebration(prizeForThisDraw.isBigWinner)
-
-      // We wait until modal closes to set AppState.FINISHED
+      const nextEvents = current.map((e) =>
+        e.id === activeEventId ? { ...e, pendingDraw: pending, log } : e
+      )
+      try {
+        await saveState({ activeEventId, events: nextEvents, keymap })
+      } catch (e) {
+        setStorageError(e instanceof Error ? e.message : String(e))
+        return null
+      }
+      return { pendingDraw: pending, log }
+    })
+    if (!stored) {
       setAppState(AppState.READY)
-    }, 5300)
-  }, [nextPrize, participants, winners, appState])
+      return
+    }
+    revealWinners(pending)
+  }, [
+    nextPrize,
+    nextPrizePoolSize,
+    drawPlanSettings.repeatPolicy,
+    drawCount,
+    drawPool,
+    winners,
+    appState,
+    pendingDraw,
+    commitment,
+    withLatestLog,
+    activeEventId,
+    activeEvent,
+    keymap,
+  ])
 
-  const handleReset = () => {
+  // Takes a result back (the winner was not present) and puts the prize up again
+  // The phone remote and the clicker pass the reason: a prompt here would wait for the
+  // host to walk over. Once the seed is public the redraw would be predictable, so
+  // results are final from then on.
+  const handleVoidWinner = async (position: number, presetReason?: string) => {
+    const winner = winners[position]
+    if (!winner || winner.voided || activeEvent.seedRevealed) return
+    const reason =
+      presetReason ??
+      window.prompt(
+        `${winner.participant.name}: хүчингүй болгох шалтгаан`,
+        NO_SHOW_REASON
+      )
+    if (reason === null) return
+    const voided: Winner = {
+      ...winner,
+      voided: { reason: reason.trim() || NO_SHOW_REASON, at: Date.now() },
+    }
+    await withLatestLog(async (log, current) => ({
+      log: await appendLogEntry(log, "redraw", voidLogData(voided, position)),
+      winners: current
+        .find((e) => e.id === activeEventId)
+        .winners.map((w, i) => (i === position ? voided : w)),
+      redrawPrizeId: winner.prize.id,
+    }))
+    setShowWinnerModal(false)
+    setDrawnParticipant(null)
+    setRevealingBatch(null)
+    setLastWinner(null)
+    setLastBatch(null)
+    setAppState(AppState.READY)
+  }
+
+  const handleReset = async () => {
     if (window.confirm("Устгахдаа итгэлтэй байна уу?")) {
-      setWinners([])
+      // The cleared winners stay in the log; only the live list starts over, with a
+      // fresh seed and commitment, since replaying the old seed would repeat the winners
+      await withLatestLog(async (log) => ({
+        log: await appendLogEntry(log, "reset", { winners: winners.length }),
+        winners: [],
+        seed: generateSeed(),
+        seedPublished: false,
+        commitment: null,
+        seedRevealed: false,
+      }))
       setAppState(AppState.READY)
-      setCookie(APP_STORAGE_KEY, "", -1)
     }
   }
 
   // Determine if we show the results screen
-  // We check winners.length vs total prizes, AND make sure the modal isn't open
-  const isAllFinished = winners.length >= PRIZES.length && !showWinnerModal
+  const handleCloseWinnerModal = () => {
+    setShowWinnerModal(false)
+    setDrawnParticipant(null)
+    setRevealingBatch(null)
+    if (drawablePrizes.length === 0) {
+      setAppState(AppState.FINISHED)
+    }
+  }
+
+  // Finished once no prize can be drawn any more, AND the modal isn't open
+  const isAllFinished = drawablePrizes.length === 0 && !pendingDraw && !showWinnerModal
+
+  // Everything the audience window shows; posted whenever any of it changes
+  const audienceState = useMemo(
+    (): AudienceState => ({
+      eventName: activeEvent.name,
+      year: eventYear(activeEvent),
+      phase: appState,
+      nextPrize: nextPrize || null,
+      poolSize: nextPrizePoolSize,
+      revealStyle,
+      suspenseStage,
+      revealNames: appState === AppState.DRAWING && !revealingBatch ? drawPoolNames : [],
+      drawn: drawnParticipant,
+      revealingBatch,
+      lastWinner,
+      lastBatch,
+      showWinnerModal,
+      isAllFinished,
+      winners,
+      commitment: commitment || null,
+      revealedSeed: activeEvent.seedRevealed ? activeEvent.seed : null,
+      blackout,
+      keymap,
+    }),
+    [
+      activeEvent.name,
+      activeEvent.date,
+      appState,
+      nextPrize,
+      nextPrizePoolSize,
+      revealStyle,
+      suspenseStage,
+      drawPoolNames,
+      drawnParticipant,
+      revealingBatch,
+      lastWinner,
+      lastBatch,
+      showWinnerModal,
+      isAllFinished,
+      winners,
+      commitment,
+      activeEvent.seedRevealed,
+      activeEvent.seed,
+      blackout,
+      keymap,
+    ]
+  )
+  const latestAudienceState = useRef(audienceState)
+  latestAudienceState.current = audienceState
+
+  useEffect(() => {
+    const channel = openPresentationChannel()
+    if (!channel) return
+    presentation.current = channel
+    // A newly opened audience window asks for the current screen
+    channel.onmessage = (e: MessageEvent<PresentationMessage>) => {
+      if (e.data.type === "hello") {
+        setAudienceConnected(true)
+        postPresentation(channel, { type: "state", state: latestAudienceState.current })
+      } else if (e.data.type === "bye") {
+        setAudienceConnected(false)
+      } else if (e.data.type === "action") {
+        // A clicker aimed at the projector window
+        latestKeyAction.current(e.data.action)
+      }
+    }
+    return () => {
+      presentation.current = null
+      channel.close()
+    }
+  }, [])
+
+  useEffect(() => {
+    postPresentation(presentation.current, { type: "state", state: audienceState })
+  }, [audienceState])
+
+  // Steps the ad hoc pick through the remaining prizes, wrapping around
+  const handleNextPrize = () => {
+    const position = drawablePrizes.findIndex((entry) => entry.prize.id === nextPrize?.id)
+    setPickedPrizeId(drawablePrizes[(position + 1) % drawablePrizes.length].prize.id)
+  }
+
+  // What the paired phones show; each flag matches when the button here is usable
+  const canDraw =
+    appState === AppState.READY &&
+    !showWinnerModal &&
+    !pendingDraw &&
+    !!commitment &&
+    !activeEvent.seedRevealed &&
+    !!nextPrize &&
+    nextPrizePoolSize > 0
+  // Where the winner in the modal sits in the list, so voiding hits the right entry even
+  // when the modal was reopened
+  const lastWinnerPosition = lastWinner ? winners.indexOf(lastWinner) : -1
+  const canRedraw =
+    showWinnerModal &&
+    !lastBatch &&
+    lastWinnerPosition >= 0 &&
+    !lastWinner.voided &&
+    !activeEvent.seedRevealed
+  const canNext =
+    drawPlanSettings.allowAdHoc &&
+    !redrawPrize &&
+    drawablePrizes.length > 1 &&
+    appState === AppState.READY &&
+    !showWinnerModal &&
+    !pendingDraw
+  const remoteStatus = useMemo(
+    (): RemoteStatus => ({
+      eventName: activeEvent.name,
+      phase: appState,
+      prize: nextPrize ? { icon: nextPrize.icon, name: nextPrize.name } : null,
+      poolSize: nextPrizePoolSize,
+      drawCount,
+      remaining: remainingUnits,
+      winnerName: showWinnerModal
+        ? lastBatch
+          ? `${lastBatch.length} азтан`
+          : lastWinner?.participant.name || null
+        : null,
+      canDraw,
+      canAdvance: canAdvanceSuspense,
+      canClose: showWinnerModal,
+      canRedraw,
+      canNext,
+    }),
+    [
+      activeEvent.name,
+      appState,
+      nextPrize,
+      nextPrizePoolSize,
+      drawCount,
+      remainingUnits,
+      showWinnerModal,
+      lastBatch,
+      lastWinner,
+      canDraw,
+      canAdvanceSuspense,
+      canRedraw,
+      canNext,
+    ]
+  )
+  const latestRemoteStatus = useRef(remoteStatus)
+  latestRemoteStatus.current = remoteStatus
+
+  // Phone commands go through the same handlers as the buttons on this screen
+  const runRemoteCommand = (command: RemoteCommand) => {
+    if (command === "draw" && canAdvanceSuspense) handleAdvanceSuspense()
+    else if (command === "draw" && canDraw) drawWinner()
+    else if (command === "close" && showWinnerModal) handleCloseWinnerModal()
+    else if (command === "redraw" && canRedraw) {
+      handleVoidWinner(lastWinnerPosition, NO_SHOW_REASON)
+    } else if (command === "next" && canNext) handleNextPrize()
+  }
+  const latestRemoteCommand = useRef(runRemoteCommand)
+  latestRemoteCommand.current = runRemoteCommand
+
+  useEffect(() => {
+    if (!remoteToken) return
+    const connection = connectRemoteServer(remoteToken, {
+      onSession: (session) => {
+        setRemoteSession(session)
+        if (session) connection.sendStatus(latestRemoteStatus.current)
+      },
+      onRemotes: (count) =>
+        setRemoteSession((prev) => prev && { ...prev, remotes: count }),
+      onCommand: (command) => latestRemoteCommand.current(command),
+      onStopped: (reason) => {
+        setRemoteStopped(reason)
+        setRemoteToken(null)
+      },
+    })
+    remote.current = connection
+    return () => {
+      remote.current = null
+      connection.close()
+      setRemoteSession(null)
+    }
+  }, [remoteToken])
+
+  const handleRemoteConnect = (token: string) => {
+    setRemoteStopped(null)
+    setRemoteToken(token)
+  }
+
+  useEffect(() => {
+    remote.current?.sendStatus(remoteStatus)
+  }, [remoteStatus])
+
+  // Shows the most recent result again; a batch comes back as its summary
+  const handleShowLastWinner = () => {
+    const live = prizeWinners(winners)
+    const last = live[live.length - 1]
+    if (!last) return
+    const batch = live.filter((w) => w.drawnAt === last.drawnAt)
+    setLastWinner(batch.length === 1 ? last : null)
+    setLastBatch(batch.length > 1 ? batch : null)
+    setShowWinnerModal(true)
+  }
+
+  // Keyboard and clicker actions, walking the same flow as the buttons
+  const runKeyAction = (action: KeyAction) => {
+    if (action === "help") setShowKeymap((open) => !open)
+    else if (action === "blackout") setBlackout((on) => !on)
+    else if (action === "fullscreen") toggleFullscreen()
+    else if (action === "advance") {
+      if (canAdvanceSuspense) handleAdvanceSuspense()
+      else if (showWinnerModal) handleCloseWinnerModal()
+      else if (canDraw) drawWinner()
+    } else if (action === "back") {
+      if (appState !== AppState.SETUP && appState !== AppState.DRAWING && !pendingDraw) {
+        handleShowLastWinner()
+      }
+    } else if (action === "redraw" && canRedraw) {
+      handleVoidWinner(lastWinnerPosition, NO_SHOW_REASON)
+    }
+  }
+  latestKeyAction.current = runKeyAction
+
+  useEffect(() => {
+    // Setup is an ordinary form; the bindings only drive the show
+    if (appState === AppState.SETUP) return
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return
+      if (isTypingTarget(e.target) || isPressKey(e.target, e.key)) return
+      if (e.key === "Escape" && showKeymap) return setShowKeymap(false)
+      const action = actionForKey(keymap, e.key)
+      if (!action || (showKeymap && action !== "help")) return
+      // Stops Space and the arrows from also clicking a focused button or scrolling
+      e.preventDefault()
+      latestKeyAction.current(action)
+    }
+    window.addEventListener("keydown", handleKey)
+    return () => window.removeEventListener("keydown", handleKey)
+  }, [keymap, showKeymap, appState])
+
+  // --- Sound ---
+  // Every cue follows a state change, never a timer of its own, so it starts and stops
+  // with the animation it belongs to.
+  useEffect(() => sound.setSettings(activeEvent.sound), [sound, activeEvent.sound])
+
+  // Ticks while a reveal moves, slowing down with it
+  const revealRunning =
+    appState === AppState.DRAWING &&
+    suspenseStage === null &&
+    (!!drawnParticipant || !!revealingBatch)
+  useEffect(() => {
+    if (!revealRunning) return
+    const revealMs = revealingBatch
+      ? batchRevealDuration(revealingBatch.length)
+      : REVEAL_ANIMATIONS[revealStyle].duration(drawPoolNames, drawnParticipant)
+    sound.startLoop("tick", revealMs)
+    return () => sound.stopLoop("tick")
+  }, [revealRunning])
+
+  // The big-prize reveal: a drum roll while it waits for the host and a hit on each
+  // step; the roll cuts out when the name comes up, ahead of the fanfare
+  const drumRolling = appState === AppState.DRAWING && canAdvanceSuspense
+  useEffect(() => {
+    if (!drumRolling) return
+    sound.startLoop("drumroll")
+    return () => sound.stopLoop("drumroll")
+  }, [drumRolling, sound])
+  useEffect(() => {
+    if (suspenseStage && suspenseStage < SUSPENSE_STEPS) sound.play("stinger")
+  }, [suspenseStage, sound])
+
+  // A reveal ending (DRAWING -> READY) is the moment the winner is announced
+  useEffect(() => {
+    const wasDrawing = previousAppState.current === AppState.DRAWING
+    previousAppState.current = appState
+    if (!wasDrawing || appState !== AppState.READY || !showWinnerModal) return
+    const announced = lastBatch || (lastWinner ? [lastWinner] : [])
+    sound.play("stinger")
+    sound.play(announced.some((w) => w.prize.isBigWinner) ? "bigFanfare" : "fanfare")
+  }, [appState])
+
+  if (!isLoaded) return null
 
   return (
     <div className='h-screen relative flex flex-col items-center p-4 overflow-hidden text-white'>
-      {showWinnerModal && (
-        <WinnerModal
-          winner={lastWinner}
-          onClose={() => {
-            setShowWinnerModal(false)
-            setCurrentDrawnName(null)
-            if (winners.length >= PRIZES.length) {
-              setAppState(AppState.FINISHED)
-            }
-          }}
+      {showWinnerModal &&
+        (lastBatch ? (
+          <BatchSummaryModal winners={lastBatch} onClose={handleCloseWinnerModal} />
+        ) : (
+          <WinnerModal
+            winner={lastWinner}
+            onClose={handleCloseWinnerModal}
+            onVoid={canRedraw ? () => handleVoidWinner(lastWinnerPosition) : undefined}
+          />
+        ))}
+
+      {showKeymap && (
+        <KeymapHelp
+          keymap={keymap}
+          onChange={setKeymap}
+          onClose={() => setShowKeymap(false)}
         />
       )}
 
+      {/* With an audience window open only that one goes dark; the host keeps the console */}
+      {blackout &&
+        (audienceConnected ? (
+          <div className='fixed top-4 right-4 z-40 bg-black border border-white/20 text-[10px] uppercase font-bold rounded-xl px-3 py-2'>
+            Дэлгэц харласан
+          </div>
+        ) : (
+          <div
+            className='fixed inset-0 z-[60] bg-black'
+            onClick={() => setBlackout(false)}
+          />
+        ))}
+
+      {pendingDraw && appState !== AppState.DRAWING && (
+        <RecoveryModal
+          pending={pendingDraw}
+          onReplay={() => revealWinners(pendingDraw)}
+          onConfirm={() => commitWinners(pendingDraw)}
+        />
+      )}
+
+      {logProblems[activeEvent.id]?.length > 0 && (
+        <div className='fixed bottom-4 left-1/2 -translate-x-1/2 z-40 max-w-lg bg-amber-900/80 border border-amber-500/40 text-amber-100 text-xs rounded-xl px-4 py-3 shadow-xl'>
+          <div className='font-bold mb-1'>
+            Анхааруулга: азтнуудын бүртгэл сүүлд өөрчлөгдсөн байна
+          </div>
+          <ul className='list-disc pl-4 space-y-0.5'>
+            {logProblems[activeEvent.id].map((problem, i) => (
+              <li key={i}>{problem}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {loadError && (
+        <div className='fixed top-4 left-1/2 -translate-x-1/2 z-40 max-w-lg bg-red-900/80 border border-red-500/40 text-red-100 text-xs font-bold rounded-xl px-4 py-3 shadow-xl space-y-2'>
+          <p>Хадгалсан өгөгдлийг уншиж чадсангүй: {loadError}</p>
+          <p className='font-medium text-red-200'>
+            Нөөц файлаас сэргээх хүртэл юу ч хадгалагдахгүй.
+          </p>
+          <Button variant='ghost' size='sm' onClick={handleDiscardStoredState}>
+            Шинээр эхлэх
+          </Button>
+        </div>
+      )}
+
+      {!loadError && storageError && (
+        <div className='fixed top-4 left-1/2 -translate-x-1/2 z-40 max-w-lg bg-red-900/80 border border-red-500/40 text-red-100 text-xs font-bold rounded-xl px-4 py-3 shadow-xl'>
+          {storageError}
+        </div>
+      )}
+
       <div className='absolute inset-0 overflow-hidden pointer-events-none -z-10'>
         <div className='absolute top-[-10%] left-[-10%] w-[50%] h-[50%] bg-blue-600/10 rounded-full blur-[120px]' />
         <div className='absolute bottom-[-10%] right-[-10%] w-[50%] h-[50%] bg-blue-400/10 rounded-full blur-[120px]' />
@@ -299,140 +1010,272 @@ export default function App() {
         <h1 className='text-3xl md:text-5xl font-black text-[#1d58f4] tracking-tighter uppercase'>
           Азтан тодруулах
         </h1>
+        <p className='text-[10px] text-gray-500 uppercase tracking-[0.3em] font-bold mt-1'>
+          {activeEvent.name}
+        </p>
       </header>
 
-      <main className='w-full max-w-6xl flex-1 flex flex-col lg:flex-row gap-6 items-stretch overflow-hidden mb-4'>
-        <div className='flex-[1.5] flex flex-col'>
-          <div
-            className={`relative flex-1 p-6 rounded-[2.5rem] border transition-all duration-700 backdrop-blur-md flex flex-col items-center justify-center text-center ${
-              (nextPrize?.isBigWinner || lastWinner?.prize.isBigWinner) &&
-              appState === AppState.DRAWING
-                ? "border-blue-500/40 bg-white/[0.05]"
-                : "border-white/10 bg-white/[0.03]"
-            }`}>
-            {!isAllFinished ? (
-              <div className='w-full animate-in fade-in duration-700'>
-                {/* Always show the icon of the NEXT prize, unless we just won the last one */}
-                {nextPrize && (
-                  <>
-                    <div className='relative inline-block mb-2'>
-                      <div className='text-6xl md:text-8xl mb-1 drop-shadow-[0_10px_30px_rgba(29,88,244,0.4)]'>
-                        {nextPrize.icon}
-                      </div>
-                      {nextPrize.isBigWinner && (
-                        <div className='absolute -top-2 -right-6 bg-[#1d58f4] text-[8px] px-2 py-1 rounded-full uppercase font-bold'>
-                          Тусгай
-                        </div>
-                      )}
-                    </div>
-                    <div className='mb-4'>
-                      <h3 className='text-gray-500 uppercase tracking-widest text-[9px] mb-1'>
-                        Дараагийн шагнал
-                      </h3>
-                      <h2
-                        className={`text-3xl md:text-5xl font-black ${
-                          nextPrize.isBigWinner
-                            ? nextPrize.name == "iPhone 17 Pro Max"
-                              ? "text-[#F77E2D]"
-                              : "text-[#1d58f4]"
-                            : "text-white"
-                        }`}>
-                        {nextPrize.name}
-                      </h2>
-                    </div>
-                  </>
-                )}
+      {appState === AppState.SETUP ? (
+        <SetupScreen
+          events={events}
+          activeEventId={activeEvent.id}
+          onCreateEvent={handleCreateEvent}
+          onSwitchEvent={handleSwitchEvent}
+          onArchiveEvent={handleArchiveEvent}
+          onRestoreEvent={handleRestoreEvent}
+          participants={participants}
+          issues={participantIssues}
+          prizes={prizes}
+          winners={winners}
+          onImport={handleImport}
+          onRemove={handleRemoveParticipants}
+          onAcknowledge={handleAcknowledgeIssue}
+          onImportExclusions={handleImportExclusions}
+          onCarryOverWinners={handleCarryOverWinners}
+          onRemoveExclusion={handleRemoveExclusion}
+          onPrizesChange={setPrizes}
+          drawPlanSettings={drawPlanSettings}
+          onDrawPlanChange={setDrawPlanSettings}
+          onSeedChange={(seed, seedPublished) =>
+            patchActiveEvent(() => ({ seed, seedPublished, commitment: null }))
+          }
+          onWithdrawCommitment={handleWithdrawCommitment}
+          onStart={() => {
+            if (participantIssues.length === 0) setAppState(AppState.READY)
+          }}
+        />
+      ) : (
+        <main className='w-full max-w-6xl flex-1 flex flex-col lg:flex-row gap-6 items-stretch overflow-hidden mb-4'>
+          <div className='flex-[1.5] flex flex-col'>
+            <div
+              className={`relative flex-1 p-6 rounded-[2.5rem] border transition-all duration-700 backdrop-blur-md flex flex-col items-center justify-center text-center ${
+                (nextPrize?.isBigWinner || lastWinner?.prize.isBigWinner) &&
+                appState === AppState.DRAWING
+                  ? "border-blue-500/40 bg-white/[0.05]"
+                  : "border-white/10 bg-white/[0.03]"
+              }`}>
+              {!isAllFinished ? (
+                <div className='w-full animate-in fade-in duration-700'>
+                  {/* Always show the icon of the NEXT prize, unless we just won the last one */}
+                  {nextPrize && (
+                    <NextPrize prize={nextPrize} poolSize={nextPrizePoolSize} />
+                  )}
 
-                <div className='w-full max-w-md mx-auto'>
-                  {appState === AppState.DRAWING ? (
-                    <NameRoller
-                      names={participants.map((p) => p.name)}
-                      winnerName={currentDrawnName}
+                  <div className='w-full max-w-md mx-auto'>
+                    {appState === AppState.DRAWING ? (
+                      revealingBatch ? (
+                        <BatchReveal winners={revealingBatch} />
+                      ) : suspenseStage !== null && drawnParticipant ? (
+                        <>
+                          <SuspenseReveal
+                            winner={drawnParticipant}
+                            stage={suspenseStage}
+                          />
+                          {canAdvanceSuspense && (
+                            <div className='mt-4'>
+                              <Button onClick={handleAdvanceSuspense} variant='primary'>
+                                Үргэлжлүүлэх
+                              </Button>
+                            </div>
+                          )}
+                        </>
+                      ) : (
+                        <RevealStage
+                          style={revealStyle}
+                          names={drawPoolNames}
+                          winner={drawnParticipant}
+                        />
+                      )
+                    ) : !commitment ? (
+                      <PublishCommitment onPublish={handlePublishCommitment} />
+                    ) : (
+                      nextPrize && (
+                        <>
+                          {winners.length === 0 && (
+                            <div className='mb-4'>
+                              <CommitmentPanel commitment={commitment} />
+                            </div>
+                          )}
+                          {batchLimit > 1 && (
+                            <BatchSizeInput
+                              value={drawCount}
+                              max={batchLimit}
+                              onChange={setBatchSize}
+                            />
+                          )}
+                          {activeEvent.seedRevealed && (
+                            <p className='text-red-300 text-xs mb-4'>
+                              Seed нээгдсэн тул дахин эхлүүлж шинэ seed-ээр сугална уу
+                            </p>
+                          )}
+                          <Button
+                            onClick={drawWinner}
+                            variant='primary'
+                            disabled={
+                              nextPrizePoolSize === 0 || activeEvent.seedRevealed
+                            }>
+                            {drawCount > 1
+                              ? `${drawCount} азтан тодруулах`
+                              : "Азтан тодруулах"}
+                          </Button>
+                        </>
+                      )
+                    )}
+                  </div>
+                </div>
+              ) : (
+                <div className='animate-in zoom-in duration-500'>
+                  <div className='text-6xl mb-4'>🥂</div>
+                  <h2 className='text-4xl font-black text-[#1d58f4] mb-4'>
+                    Арга хэмжээ дууслаа
+                  </h2>
+                  <div className='mb-4'>
+                    <SeedRevealPanel
+                      event={activeEvent}
+                      onReveal={() => patchActiveEvent(() => ({ seedRevealed: true }))}
                     />
-                  ) : (
-                    nextPrize && (
-                      <Button onClick={drawWinner} variant='primary'>
-                        Азтан тодруулах
-                      </Button>
-                    )
-                  )}
+                  </div>
+                  <div className='mb-4'>
+                    <WinnerExport event={activeEvent} />
+                  </div>
+                  <Button variant='ghost' onClick={handleReset} size='sm'>
+                    Дахин эхлүүлэх
+                  </Button>
                 </div>
-              </div>
-            ) : (
-              <div className='animate-in zoom-in duration-500'>
-                <div className='text-6xl mb-4'>🥂</div>
-                <h2 className='text-4xl font-black text-[#1d58f4] mb-4'>
-                  Арга хэмжээ дууслаа
-                </h2>
-                <Button variant='ghost' onClick={handleReset} size='sm'>
-                  Дахин эхлүүлэх
-                </Button>
-              </div>
-            )}
+              )}
+            </div>
+            <PresenterPanel
+              audienceConnected={audienceConnected}
+              remote={remoteSession}
+              remoteConnecting={!!remoteToken && !remoteSession}
+              remoteStopped={remoteStopped}
+              onRemoteConnect={handleRemoteConnect}
+              onShowKeys={() => setShowKeymap(true)}
+              sound={activeEvent.sound}
+              onSoundChange={setSoundSettings}
+              notes={activeEvent.notes || ""}
+              onNotesChange={setNotes}
+            />
           </div>
-        </div>
 
-        {/* Sidebar remains same */}
-        <aside className='flex-1 lg:max-w-[340px] flex flex-col overflow-hidden'>
-          <div className='bg-white/[0.04] backdrop-blur-xl rounded-[2rem] border border-white/10 p-5 flex flex-col h-full'>
-            <div className='flex items-center justify-between mb-4'>
-              <h3 className='font-bold flex items-center gap-2 text-sm'>
-                <span className='p-1.5 bg-[#1d58f4] rounded-lg'>
-                  <svg className='h-3 w-3' viewBox='0 0 20 20' fill='currentColor'>
-                    <path d='M5 5a3 3 0 015-2.236A3 3 0 0114.83 6H16a2 2 0 110 4h-5V9a1 1 0 10-2 0v1H4a2 2 0 110-4h1.17C5.06 5.687 5 5.35 5 5zm4 1V5a1 1 0 10-1 1h1zm3 0a1 1 0 10-1-1v1h1z' />
-                  </svg>
+          {/* Sidebar remains same */}
+          <aside className='flex-1 lg:max-w-[340px] flex flex-col overflow-hidden'>
+            <div className='bg-white/[0.04] backdrop-blur-xl rounded-[2rem] border border-white/10 p-5 flex flex-col h-full'>
+              <DrawPlanPanel
+                plan={drawablePrizes}
+                skipped={skippedPrizes.map(({ prize }) => ({
+                  prize,
+                  reason: emptyPoolReason(drawPool, prize, drawPlanSettings.repeatPolicy),
+                }))}
+                nextPrize={nextPrize}
+                canPick={
+                  drawPlanSettings.allowAdHoc &&
+                  appState !== AppState.DRAWING &&
+                  !showWinnerModal
+                }
+                onPick={setPickedPrizeId}
+              />
+              <div className='flex items-center justify-between mb-4'>
+                <h3 className='font-bold flex items-center gap-2 text-sm'>
+                  <span className='p-1.5 bg-[#1d58f4] rounded-lg'>
+                    <svg className='h-3 w-3' viewBox='0 0 20 20' fill='currentColor'>
+                      <path d='M5 5a3 3 0 015-2.236A3 3 0 0114.83 6H16a2 2 0 110 4h-5V9a1 1 0 10-2 0v1H4a2 2 0 110-4h1.17C5.06 5.687 5 5.35 5 5zm4 1V5a1 1 0 10-1 1h1zm3 0a1 1 0 10-1-1v1h1z' />
+                    </svg>
+                  </span>
+                  Азтанууд
+                </h3>
+                <span className='text-[10px] text-gray-500 font-bold'>
+                  {prizeWinnerCount}/{prizeUnits}
                 </span>
-                Азтанууд
-              </h3>
-              <span className='text-[10px] text-gray-500 font-bold'>
-                {winners.length}/{PRIZES.length}
-              </span>
-            </div>
-            <div className='flex-1 overflow-y-auto pr-2 custom-scrollbar space-y-2'>
-              {winners.length === 0 ? (
-                <div className='h-full flex flex-col items-center justify-center text-gray-600 text-[10px] uppercase tracking-tighter'>
-                  Хүлээж байна...
-                </div>
-              ) : (
-                [...winners].reverse().map((w, i) => (
-                  <div
-                    key={i}
-                    className='bg-white/5 border border-white/5 p-3 rounded-xl flex items-center gap-3 animate-in slide-in-from-right duration-300'>
-                    <div className='text-2xl'>{w.prize.icon}</div>
-                    <div className='min-w-0'>
-                      <div className='font-bold text-sm truncate'>
-                        {w.participant.name}
-                      </div>
+              </div>
+              <div className='flex-1 overflow-y-auto pr-2 custom-scrollbar space-y-2'>
+                {winners.length === 0 ? (
+                  <div className='h-full flex flex-col items-center justify-center text-gray-600 text-[10px] uppercase tracking-tighter'>
+                    Хүлээж байна...
+                  </div>
+                ) : (
+                  winners
+                    .map((w, position) => ({ w, position }))
+                    .reverse()
+                    .map(({ w, position }) => (
                       <div
-                        className={`text-[9px] font-black uppercase ${
-                          w.prize.isBigWinner
-                            ? w.prize.name == "iPhone 17 Pro Max"
-                              ? "text-[#F77E2D]"
-                              : "text-blue-400"
-                            : "text-gray-500"
+                        key={position}
+                        className={`bg-white/5 border border-white/5 p-3 rounded-xl flex items-center gap-3 animate-in slide-in-from-right duration-300 ${
+                          w.voided ? "opacity-50" : ""
                         }`}>
-                        {w.prize.name}
+                        <div className='text-2xl'>{w.prize.icon}</div>
+                        <div className='min-w-0 flex-1'>
+                          <div
+                            className={`font-bold text-sm truncate ${
+                              w.voided ? "line-through" : ""
+                            }`}>
+                            {w.participant.name}
+                          </div>
+                          <div
+                            className={`text-[9px] font-black uppercase ${
+                              w.prize.isBigWinner
+                                ? w.prize.name == "iPhone 17 Pro Max"
+                                  ? "text-[#F77E2D]"
+                                  : "text-blue-400"
+                                : "text-gray-500"
+                            }`}>
+                            {w.prize.name}
+                            {w.voided && (
+                              <span className='normal-case text-red-300'>
+                                {" "}
+                                &bull; {w.voided.reason}
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                        {!w.voided && (
+                          <button
+                            className='text-[9px] uppercase font-bold text-gray-500 hover:text-red-300 disabled:opacity-30'
+                            title={
+                              activeEvent.seedRevealed
+                                ? "Seed нээгдсэн тул үр дүн эцсийнх"
+                                : undefined
+                            }
+                            disabled={
+                              appState === AppState.DRAWING ||
+                              showWinnerModal ||
+                              !!pendingDraw ||
+                              activeEvent.seedRevealed
+                            }
+                            onClick={() => handleVoidWinner(position)}>
+                            Ирээгүй
+                          </button>
+                        )}
                       </div>
-                    </div>
+                    ))
+                )}
+              </div>
+              <div className='pt-4 mt-4 border-t border-white/10 flex items-end justify-between'>
+                <Button
+                  variant='ghost'
+                  size='sm'
+                  onClick={() => setAppState(AppState.SETUP)}
+                  disabled={
+                    appState === AppState.DRAWING || showWinnerModal || !!pendingDraw
+                  }>
+                  Тохиргоо
+                </Button>
+                <div className='text-right'>
+                  <div className='text-[8px] text-gray-500 uppercase font-bold'>
+                    Үлдсэн
                   </div>
-                ))
-              )}
-            </div>
-            <div className='pt-4 mt-4 border-t border-white/10 flex justify-end'>
-              <div className='text-right'>
-                <div className='text-[8px] text-gray-500 uppercase font-bold'>Үлдсэн</div>
-                <div className='text-lg font-bold text-blue-500'>
-                  {remainingPrizes.length}
+                  <div className='text-lg font-bold text-blue-500'>{remainingUnits}</div>
                 </div>
               </div>
             </div>
-          </div>
-        </aside>
-      </main>
+          </aside>
+        </main>
+      )}
 
       <footer className='py-2 opacity-30'>
         <p className='text-[8px] tracking-[0.5em] uppercase font-bold'>
-          Зөв хуримтлалын сан &bull; 2025
+          Зөв хуримтлалын сан &bull; {eventYear(activeEvent)}
+          {commitment && <> &bull; sha256:{commitment.hash.slice(0, 12)}</>}
         </p>
       </footer>
     </div>
@@ -0,0 +1,195 @@
+import React, { useEffect, useRef, useState } from "react"
+import { AppState } from "../types"
+import { RevealStage } from "./RevealAnimation"
+import { SuspenseReveal } from "./SuspenseReveal"
+import { NextPrize } from "./NextPrize"
+import { WinnerModal } from "./WinnerModal"
+import { BatchReveal, BatchSummaryModal } from "./BatchReveal"
+import { CommitmentPanel } from "./Fairness"
+import { triggerCelebration } from "../services/celebration"
+import { actionForKey, toggleFullscreen } from "../services/keymap"
+import {
+  AudienceState,
+  PresentationMessage,
+  openPresentationChannel,
+  postPresentation,
+  sameNames,
+} from "../services/presentation"
+
+// The projected screen: no controls, no dialogs, just what the console last sent
+export const AudienceView: React.FC = () => {
+  const [state, setState] = useState<AudienceState | null>(null)
+  const [revealNames, setRevealNames] = useState<string[]>([])
+  const modalOpen = useRef(false)
+  const latestState = useRef<AudienceState | null>(null)
+
+  useEffect(() => {
+    const channel = openPresentationChannel()
+    if (!channel) return
+    channel.onmessage = (e: MessageEvent<PresentationMessage>) => {
+      if (e.data.type !== "state") return
+      const next = e.data.state
+      setRevealNames((prev) =>
+        sameNames(prev, next.revealNames) ? prev : next.revealNames
+      )
+      // Confetti plays here too, once per winner the console announces
+      if (next.showWinnerModal && !modalOpen.current) {
+        const announced = next.lastBatch || (next.lastWinner ? [next.lastWinner] : [])
+        triggerCelebration(announced.some((w) => w.prize.isBigWinner))
+      }
+      modalOpen.current = next.showWinnerModal
+      latestState.current = next
+      setState(next)
+    }
+    // Fullscreen has to be asked for by this window; every other key goes to the console
+    const handleKey = (e: KeyboardEvent) => {
+      const keymap = latestState.current?.keymap
+      if (!keymap || e.ctrlKey || e.metaKey || e.altKey) return
+      const action = actionForKey(keymap, e.key)
+      if (!action) return
+      e.preventDefault()
+      if (action === "fullscreen") toggleFullscreen()
+      else postPresentation(channel, { type: "action", action })
+    }
+    window.addEventListener("keydown", handleKey)
+    const sayBye = () => postPresentation(channel, { type: "bye" })
+    window.addEventListener("beforeunload", sayBye)
+    postPresentation(channel, { type: "hello" })
+    return () => {
+      window.removeEventListener("keydown", handleKey)
+      window.removeEventListener("beforeunload", sayBye)
+      sayBye()
+      channel.close()
+    }
+  }, [])
+
+  const liveWinners = state ? state.winners.filter((w) => !w.voided) : []
+
+  return (
+    <div className='h-screen relative flex flex-col items-center p-4 overflow-hidden text-white'>
+      {state?.blackout && <div className='fixed inset-0 z-[60] bg-black' />}
+
+      {state?.showWinnerModal &&
+        (state.lastBatch ? (
+          <BatchSummaryModal winners={state.lastBatch} />
+        ) : (
+          <WinnerModal winner={state.lastWinner} />
+        ))}
+
+      <div className='absolute inset-0 overflow-hidden pointer-events-none -z-10'>
+        <div className='absolute top-[-10%] left-[-10%] w-[50%] h-[50%] bg-blue-600/10 rounded-full blur-[120px]' />
+        <div className='absolute bottom-[-10%] right-[-10%] w-[50%] h-[50%] bg-blue-400/10 rounded-full blur-[120px]' />
+      </div>
+
+      <header className='text-center mb-4 mt-2 flex flex-col items-center'>
+        <img
+          src='/zuw logo main white.png'
+          alt='logo'
+          className='w-[140px] md:w-[160px] h-auto mb-2 object-contain'
+        />
+        <h1 className='text-3xl md:text-5xl font-black text-[#1d58f4] tracking-tighter uppercase'>
+          Азтан тодруулах
+        </h1>
+        {state && (
+          <p className='text-[10px] text-gray-500 uppercase tracking-[0.3em] font-bold mt-1'>
+            {state.eventName}
+          </p>
+        )}
+      </header>
+
+      <main className='w-full max-w-6xl flex-1 flex flex-col lg:flex-row gap-6 items-stretch overflow-hidden mb-4'>
+        <div
+          className={`relative flex-[1.5] p-6 rounded-[2.5rem] border transition-all duration-700 backdrop-blur-md flex flex-col items-center justify-center text-center ${
+            state?.nextPrize?.isBigWinner && state.phase === AppState.DRAWING
+              ? "border-blue-500/40 bg-white/[0.05]"
+              : "border-white/10 bg-white/[0.03]"
+          }`}>
+          {!state || state.phase === AppState.SETUP ? (
+            <div className='text-gray-500 text-sm uppercase tracking-[0.3em] font-bold'>
+              Удахгүй эхэлнэ...
+            </div>
+          ) : state.isAllFinished ? (
+            <div className='animate-in zoom-in duration-500'>
+              <div className='text-6xl mb-4'>🥂</div>
+              <h2 className='text-4xl font-black text-[#1d58f4]'>Арга хэмжээ дууслаа</h2>
+              {state.commitment && (
+                <div className='mt-6'>
+                  <CommitmentPanel
+                    commitment={state.commitment}
+                    revealedSeed={state.revealedSeed || undefined}
+                  />
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className='w-full animate-in fade-in duration-700'>
+              {state.commitment &&
+                state.winners.length === 0 &&
+                state.phase !== AppState.DRAWING && (
+                  <div className='mb-6 flex justify-center'>
+                    <CommitmentPanel commitment={state.commitment} />
+                  </div>
+                )}
+              {state.nextPrize && (
+                <NextPrize prize={state.nextPrize} poolSize={state.poolSize} />
+              )}
+              {state.phase === AppState.DRAWING && (
+                <div className='w-full max-w-md mx-auto'>
+                  {state.revealingBatch ? (
+                    <BatchReveal winners={state.revealingBatch} />
+                  ) : state.suspenseStage !== null && state.drawn ? (
+                    <SuspenseReveal winner={state.drawn} stage={state.suspenseStage} />
+                  ) : (
+                    <RevealStage
+                      style={state.revealStyle}
+                      names={revealNames}
+                      winner={state.drawn}
+                    />
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <aside className='flex-1 lg:max-w-[340px] flex flex-col overflow-hidden'>
+          <div className='bg-white/[0.04] backdrop-blur-xl rounded-[2rem] border border-white/10 p-5 flex flex-col h-full'>
+            <h3 className='font-bold text-sm mb-4'>Азтанууд</h3>
+            <div className='flex-1 overflow-y-auto pr-2 custom-scrollbar space-y-2'>
+              {liveWinners.length === 0 ? (
+                <div className='h-full flex flex-col items-center justify-center text-gray-600 text-[10px] uppercase tracking-tighter'>
+                  Хүлээж байна...
+                </div>
+              ) : (
+                liveWinners
+                  .slice()
+                  .reverse()
+                  .map((w, i) => (
+                    <div
+                      key={i}
+                      className='bg-white/5 border border-white/5 p-3 rounded-xl flex items-center gap-3'>
+                      <div className='text-2xl'>{w.prize.icon}</div>
+                      <div className='min-w-0 flex-1'>
+                        <div className='font-bold text-sm truncate'>
+                          {w.participant.name}
+                        </div>
+                        <div className='text-[9px] font-black uppercase text-gray-500'>
+                          {w.prize.name}
+                        </div>
+                      </div>
+                    </div>
+                  ))
+              )}
+            </div>
+          </div>
+        </aside>
+      </main>
+
+      <footer className='py-2 opacity-30'>
+        <p className='text-[8px] tracking-[0.5em] uppercase font-bold'>
+          Зөв хуримтлалын сан{state && <> &bull; {state.year}</>}
+        </p>
+      </footer>
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from "react"
+import { Winner } from "../types"
+import { Button } from "./Button"
+
+// Tiles flip one after another, spread over at most SPREAD_MS however big the batch
+const START_DELAY_MS = 500
+const SPREAD_MS = 3000
+const MAX_STEP_MS = 250
+const HOLD_MS = 1200
+
+const revealStep = (count: number) => Math.min(MAX_STEP_MS, SPREAD_MS / count)
+
+// How long the grid needs before the batch can be committed
+export const batchRevealDuration = (count: number) =>
+  START_DELAY_MS + revealStep(count) * count + HOLD_MS
+
+export const BatchReveal: React.FC<{ winners: Winner[] }> = ({ winners }) => {
+  const [revealed, setRevealed] = useState(0)
+
+  useEffect(() => {
+    setRevealed(0)
+    const step = revealStep(winners.length)
+    const timers = winners.map((_, i) =>
+      setTimeout(() => setRevealed(i + 1), START_DELAY_MS + step * (i + 1))
+    )
+    return () => timers.forEach(clearTimeout)
+  }, [winners])
+
+  return (
+    <div className='grid grid-cols-2 md:grid-cols-3 gap-2 max-h-[300px] overflow-y-auto custom-scrollbar p-1'>
+      {winners.map((w, i) => (
+        <div
+          key={w.participant.id}
+          className={`h-12 rounded-xl border flex items-center justify-center px-2 text-sm font-mono transition-all duration-500 ${
+            i < revealed
+              ? "bg-blue-500/10 border-blue-500/40 text-white scale-100"
+              : "bg-black/40 border-white/5 text-gray-600 scale-95"
+          }`}>
+          {i < revealed ? w.participant.name : "?"}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export const BatchSizeInput: React.FC<{
+  value: number
+  max: number
+  onChange: (value: number) => void
+}> = ({ value, max, onChange }) => (
+  <div className='flex items-center justify-center gap-2 mb-4 text-[10px] uppercase font-bold text-gray-400'>
+    Нэг дор
+    <input
+      type='number'
+      min={1}
+      max={max}
+      className='w-16 bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-xs text-white text-center'
+      value={value}
+      onChange={(e) =>
+        onChange(Math.max(1, Math.min(max, Math.floor(+e.target.value) || 1)))
+      }
+    />
+    / {max}
+    <button className='text-blue-400 hover:text-white' onClick={() => onChange(max)}>
+      Бүгд
+    </button>
+  </div>
+)
+
+// Without onClose (the audience screen) the modal waits for the console to close it
+export const BatchSummaryModal: React.FC<{ winners: Winner[]; onClose?: () => void }> = ({
+  winners,
+  onClose,
+}) => {
+  const prize = winners[0]?.prize
+  if (!prize) return null
+  return (
+    <div className='fixed inset-0 z-50 flex items-center justify-center p-4'>
+      <div
+        className='absolute inset-0 bg-black/95 backdrop-blur-xl animate-in fade-in duration-500'
+        onClick={onClose}
+      />
+      <div className='relative w-full max-w-2xl max-h-[90vh] bg-gradient-to-b from-white/[0.1] to-transparent border border-white/20 p-8 rounded-[2rem] shadow-2xl flex flex-col items-center text-center animate-in zoom-in-95 fade-in duration-500'>
+        <div className='text-[60px] mb-2'>{prize.icon}</div>
+        <p className='text-gray-400 text-[10px] uppercase tracking-[0.2em] mb-1 font-bold'>
+          {winners.length} азтан дараах шагналын эзэн боллоо
+        </p>
+        <div className='text-2xl font-bold text-[#4f83ff] mb-6'>{prize.name}</div>
+        <div className='w-full grid grid-cols-2 md:grid-cols-3 gap-2 overflow-y-auto custom-scrollbar mb-6'>
+          {winners.map((w) => (
+            <div
+              key={w.participant.id}
+              className='bg-white/5 border border-white/5 rounded-xl px-3 py-2 text-sm font-bold truncate'>
+              {w.participant.name}
+            </div>
+          ))}
+        </div>
+        {onClose && (
+          <Button onClick={onClose} variant='primary' size='sm'>
+            Хаах
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
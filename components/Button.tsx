@@ -0,0 +1,35 @@
+import React from "react"
+
+export const Button: React.FC<{
+  onClick: () => void
+  children: React.ReactNode
+  disabled?: boolean
+  variant?: "primary" | "secondary" | "danger" | "ghost"
+  className?: string
+  size?: "sm" | "md"
+}> = ({
+  onClick,
+  children,
+  disabled,
+  variant = "primary",
+  className = "",
+  size = "md",
+}) => {
+  const baseStyles =
+    "rounded-full font-bold uppercase tracking-widest transition-all duration-300 transform active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+  const sizes = { sm: "px-6 py-2 text-[10px]", md: "px-10 py-4 text-sm" }
+  const variants = {
+    primary: "bg-[#1d58f4] hover:bg-[#3b6fff] text-white shadow-xl shadow-blue-500/20",
+    secondary: "bg-gray-800 hover:bg-gray-700 text-white shadow-lg",
+    danger: "bg-red-900/40 hover:bg-red-700/60 text-red-200 border border-red-500/30",
+    ghost: "bg-white/10 hover:bg-white/20 text-white border border-white/10",
+  }
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={`${baseStyles} ${variants[variant]} ${sizes[size]} ${className}`}>
+      {children}
+    </button>
+  )
+}
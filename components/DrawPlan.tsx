@@ -0,0 +1,143 @@
+import React from "react"
+import {
+  DrawOrder,
+  DrawPlanSettings,
+  Prize,
+  PrizeTier,
+  RepeatWinnerPolicy,
+  RevealStyle,
+} from "../types"
+import {
+  ORDER_LABELS,
+  PlannedPrize,
+  REPEAT_POLICY_LABELS,
+  TIER_LABELS,
+} from "../services/drawPlan"
+import { REVEAL_ANIMATIONS, REVEAL_STYLES } from "./RevealAnimation"
+
+const TIER_STYLES: Record<PrizeTier, string> = {
+  grand: "text-[#F77E2D]",
+  special: "text-blue-400",
+  regular: "text-gray-500",
+}
+
+// Sidebar list of what is still to come, so the audience can follow along
+export const DrawPlanPanel: React.FC<{
+  plan: PlannedPrize[]
+  // Prizes nobody can be drawn for any more, with the reason
+  skipped: { prize: Prize; reason: string }[]
+  nextPrize?: Prize
+  canPick: boolean
+  onPick: (prizeId: number) => void
+}> = ({ plan, skipped, nextPrize, canPick, onPick }) => {
+  if (plan.length === 0 && skipped.length === 0) return null
+  return (
+    <div className='mb-4 pb-4 border-b border-white/10'>
+      {plan.length > 0 && <h3 className='font-bold text-sm mb-2'>Удахгүй</h3>}
+      <div className='max-h-40 overflow-y-auto pr-2 custom-scrollbar space-y-1'>
+        {plan.map(({ prize, tier, remaining }) => {
+          const isNext = prize.id === nextPrize?.id
+          return (
+            <button
+              key={prize.id}
+              disabled={!canPick}
+              onClick={() => onPick(prize.id)}
+              className={`w-full text-left flex items-center gap-2 px-3 py-1.5 rounded-lg border transition-all duration-300 disabled:cursor-default ${
+                isNext
+                  ? "bg-blue-500/10 border-blue-500/40"
+                  : "bg-white/5 border-transparent enabled:hover:border-white/20"
+              }`}>
+              <span className='text-lg'>{prize.icon}</span>
+              <span className='min-w-0 flex-1'>
+                <span className='block text-xs font-bold truncate'>{prize.name}</span>
+                <span
+                  className={`block text-[8px] font-black uppercase ${TIER_STYLES[tier]}`}>
+                  {TIER_LABELS[tier]}
+                </span>
+              </span>
+              <span className='text-[10px] text-gray-400 font-bold'>×{remaining}</span>
+            </button>
+          )
+        })}
+      </div>
+      {skipped.length > 0 && (
+        <div className='mt-3 space-y-1'>
+          <h3 className='font-bold text-sm text-red-300'>Алгассан</h3>
+          {skipped.map(({ prize, reason }) => (
+            <div key={prize.id} className='px-3 py-1.5 rounded-lg bg-red-500/5 text-xs'>
+              <span className='font-bold'>
+                {prize.icon} {prize.name}
+              </span>
+              <span className='block text-[10px] text-red-300'>{reason}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export const DrawPlanSettingsForm: React.FC<{
+  settings: DrawPlanSettings
+  // Order, host picks and the repeat policy are fixed once the commitment covering
+  // them is published; the reveal style is only a look and stays open
+  locked: boolean
+  onChange: (settings: DrawPlanSettings) => void
+}> = ({ settings, locked, onChange }) => (
+  <div className='flex flex-wrap items-center gap-4 bg-white/5 rounded-2xl p-3 mb-4 text-xs'>
+    <span className='text-[10px] uppercase font-bold text-gray-400'>Дараалал</span>
+    {(Object.keys(ORDER_LABELS) as DrawOrder[]).map((order) => (
+      <label key={order} className='flex items-center gap-2'>
+        <input
+          type='radio'
+          checked={settings.order === order}
+          disabled={locked}
+          onChange={() => onChange({ ...settings, order })}
+        />
+        {ORDER_LABELS[order]}
+      </label>
+    ))}
+    <label className='flex items-center gap-2'>
+      <input
+        type='checkbox'
+        checked={settings.allowAdHoc}
+        disabled={locked}
+        onChange={(e) => onChange({ ...settings, allowAdHoc: e.target.checked })}
+      />
+      Хөтлөгч шагналаа сонгоно
+    </label>
+    <label className='flex items-center gap-2 w-full'>
+      <span className='text-[10px] uppercase font-bold text-gray-400'>Давтан хожих</span>
+      <select
+        className='bg-black/40 border border-white/10 rounded-lg px-3 py-1 text-xs text-white disabled:opacity-50'
+        value={settings.repeatPolicy}
+        disabled={locked}
+        onChange={(e) =>
+          onChange({ ...settings, repeatPolicy: e.target.value as RepeatWinnerPolicy })
+        }>
+        {(Object.keys(REPEAT_POLICY_LABELS) as RepeatWinnerPolicy[]).map((policy) => (
+          <option key={policy} value={policy}>
+            {REPEAT_POLICY_LABELS[policy]}
+          </option>
+        ))}
+      </select>
+    </label>
+    <label className='flex items-center gap-2 w-full'>
+      <span className='text-[10px] uppercase font-bold text-gray-400'>
+        Тодруулах хэлбэр
+      </span>
+      <select
+        className='bg-black/40 border border-white/10 rounded-lg px-3 py-1 text-xs text-white'
+        value={settings.revealStyle}
+        onChange={(e) =>
+          onChange({ ...settings, revealStyle: e.target.value as RevealStyle })
+        }>
+        {REVEAL_STYLES.map((style) => (
+          <option key={style} value={style}>
+            {REVEAL_ANIMATIONS[style].label}
+          </option>
+        ))}
+      </select>
+    </label>
+  </div>
+)
@@ -0,0 +1,64 @@
+import React, { useState } from "react"
+import { Button } from "./Button"
+import { generateSeed } from "../services/drawEngine"
+
+const inputClass =
+  "bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-xs text-white min-w-0 font-mono"
+
+// The seed fixes every pick in the event, so it is frozen once the commitment covering
+// it is published. A generated seed stays hidden, from the operator too, until the
+// reveal after the event; only a seed announced in advance is shown.
+export const DrawSeedForm: React.FC<{
+  seed: string
+  seedPublished: boolean
+  locked: boolean
+  revealed: boolean
+  onChange: (seed: string, published: boolean) => void
+}> = ({ seed, seedPublished, locked, revealed, onChange }) => {
+  const [draft, setDraft] = useState("")
+  const showSeed = seedPublished || revealed
+
+  return (
+    <div className='bg-white/5 rounded-2xl p-3 mb-4 flex flex-col gap-2 text-xs'>
+      <div className='flex items-center justify-between gap-2'>
+        <span className='text-[10px] uppercase font-bold text-gray-400'>
+          Сугалааны seed {seedPublished ? "(нийтэлсэн)" : "(автомат)"}
+        </span>
+        {locked && (
+          <span className='text-[9px] uppercase font-bold text-gray-500'>
+            Баталгаа нийтэлсэн тул өөрчлөх боломжгүй
+          </span>
+        )}
+      </div>
+      <div className='font-mono text-gray-300 break-all'>
+        {showSeed ? seed : "•".repeat(24)}
+      </div>
+      {!locked && (
+        <div className='flex flex-wrap items-center gap-2'>
+          <input
+            className={`${inputClass} flex-1`}
+            value={draft}
+            placeholder='Урьдчилан зарласан seed'
+            onChange={(e) => setDraft(e.target.value)}
+          />
+          <Button
+            variant='ghost'
+            size='sm'
+            disabled={!draft.trim()}
+            onClick={() => {
+              onChange(draft.trim(), true)
+              setDraft("")
+            }}>
+            Хэрэглэх
+          </Button>
+          <Button
+            variant='ghost'
+            size='sm'
+            onClick={() => onChange(generateSeed(), false)}>
+            Шинээр үүсгэх
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
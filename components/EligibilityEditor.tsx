@@ -0,0 +1,115 @@
+import React, { useState } from "react"
+import { PrizeEligibility } from "../types"
+import {
+  describeEligibility,
+  formatMemberNoRanges,
+  formatTagList,
+  parseMemberNoRanges,
+  parseTagList,
+} from "../services/eligibility"
+
+const inputClass =
+  "bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-xs text-white min-w-0 flex-1"
+
+const EMPTY_RULES: PrizeEligibility = {
+  includeTags: [],
+  excludeTags: [],
+  memberNoRanges: [],
+  pool: null,
+}
+
+// Text fields keep their own draft and are parsed on blur, so typing "1000-" or a
+// trailing comma is not cleaned away mid-edit
+export const EligibilityEditor: React.FC<{
+  rules?: PrizeEligibility | null
+  pools: string[]
+  tags: string[]
+  poolSize: number
+  locked: boolean
+  onChange: (rules: PrizeEligibility) => void
+}> = ({ rules, pools, tags, poolSize, locked, onChange }) => {
+  const current = rules || EMPTY_RULES
+  const [isOpen, setIsOpen] = useState(false)
+  const [includeDraft, setIncludeDraft] = useState(formatTagList(current.includeTags))
+  const [excludeDraft, setExcludeDraft] = useState(formatTagList(current.excludeTags))
+  const [rangesDraft, setRangesDraft] = useState(
+    formatMemberNoRanges(current.memberNoRanges)
+  )
+  const [rangeError, setRangeError] = useState<string | null>(null)
+
+  const commitRanges = () => {
+    const { ranges, invalid } = parseMemberNoRanges(rangesDraft)
+    setRangeError(invalid.length ? `Буруу: ${invalid.join(", ")}` : null)
+    onChange({ ...current, memberNoRanges: ranges })
+  }
+
+  return (
+    <div className='text-[10px] font-bold text-gray-400'>
+      <button
+        className='flex items-center gap-2 uppercase hover:text-white'
+        onClick={() => setIsOpen(!isOpen)}>
+        <span>{isOpen ? "▾" : "▸"} Нөхцөл:</span>
+        <span className='normal-case text-gray-300'>{describeEligibility(rules)}</span>
+        <span className='text-blue-400'>{poolSize} оролцогч</span>
+      </button>
+      {isOpen &&
+        (locked ? (
+          <p className='mt-2 text-gray-500'>
+            Баталгаа нийтэлсэн эсвэл азтан тодорсон тул нөхцөлийг өөрчлөх боломжгүй.
+          </p>
+        ) : (
+          <div className='mt-2 flex flex-col gap-2'>
+            <label className='flex items-center gap-2'>
+              <span className='w-24 uppercase'>Зөвхөн</span>
+              <input
+                className={inputClass}
+                value={includeDraft}
+                placeholder={tags.length ? tags.join(", ") : "шошго1, шошго2"}
+                onChange={(e) => setIncludeDraft(e.target.value)}
+                onBlur={() =>
+                  onChange({ ...current, includeTags: parseTagList(includeDraft) })
+                }
+              />
+            </label>
+            <label className='flex items-center gap-2'>
+              <span className='w-24 uppercase'>Хасах</span>
+              <input
+                className={inputClass}
+                value={excludeDraft}
+                placeholder='шошго'
+                onChange={(e) => setExcludeDraft(e.target.value)}
+                onBlur={() =>
+                  onChange({ ...current, excludeTags: parseTagList(excludeDraft) })
+                }
+              />
+            </label>
+            <label className='flex items-center gap-2'>
+              <span className='w-24 uppercase'>Дугаар</span>
+              <input
+                className={inputClass}
+                value={rangesDraft}
+                placeholder='1000-1999, 5000'
+                onChange={(e) => setRangesDraft(e.target.value)}
+                onBlur={commitRanges}
+              />
+            </label>
+            {rangeError && <p className='text-red-300'>{rangeError}</p>}
+            <label className='flex items-center gap-2'>
+              <span className='w-24 uppercase'>Сан</span>
+              <select
+                className={inputClass}
+                value={current.pool || ""}
+                onChange={(e) => onChange({ ...current, pool: e.target.value || null })}>
+                <option value=''>Бүх сан</option>
+                {pools.map((pool) => (
+                  <option key={pool} value={pool}>
+                    {pool}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+        ))}
+    </div>
+  )
+}
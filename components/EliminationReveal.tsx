@@ -0,0 +1,65 @@
+import React, { useEffect, useMemo, useState } from "react"
+import { Participant } from "../types"
+import { revealField, revealFieldSize } from "../services/reveal"
+import { secureShuffle } from "../services/drawEngine"
+
+// A field of names is knocked out one at a time, counting down until only the
+// winner is left standing
+const FIELD_SIZE = 12
+const START_DELAY_MS = 600
+const STEP_MS = 450
+const HOLD_MS = 1200
+
+export const eliminationDuration = (names: string[]) =>
+  START_DELAY_MS + STEP_MS * (revealFieldSize(names, FIELD_SIZE) - 1) + HOLD_MS
+
+export const EliminationReveal: React.FC<{
+  names: string[]
+  winner: Participant | null
+}> = ({ names, winner }) => {
+  const winnerName = winner?.name || null
+  const field = useMemo(
+    () => revealField(names, winnerName, FIELD_SIZE),
+    [names, winnerName]
+  )
+  const [out, setOut] = useState<string[]>([])
+
+  useEffect(() => {
+    setOut([])
+    if (!winnerName) return
+    const order = secureShuffle(field.filter((name) => name !== winnerName))
+    const timers = order.map((_, i) =>
+      setTimeout(() => setOut(order.slice(0, i + 1)), START_DELAY_MS + STEP_MS * (i + 1))
+    )
+    return () => timers.forEach(clearTimeout)
+  }, [field, winnerName])
+
+  const left = field.length - out.length
+
+  return (
+    <div className='w-full flex flex-col items-center gap-3'>
+      <div className='text-[10px] uppercase tracking-[0.3em] font-bold text-gray-400'>
+        Үлдсэн <span className='text-white text-lg'>{left}</span>
+      </div>
+      <div className='w-full grid grid-cols-2 md:grid-cols-3 gap-2'>
+        {field.map((name) => {
+          const isOut = out.includes(name)
+          const isWinner = left === 1 && name === winnerName
+          return (
+            <div
+              key={name}
+              className={`h-12 rounded-xl border flex items-center justify-center px-2 text-sm font-mono truncate transition-all duration-500 ${
+                isWinner
+                  ? "bg-blue-500/20 border-blue-500/60 text-white scale-110 font-bold"
+                  : isOut
+                    ? "bg-black/20 border-white/5 text-gray-700 line-through scale-90 opacity-40"
+                    : "bg-white/5 border-white/10 text-white"
+              }`}>
+              {name}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,190 @@
+import React, { useRef, useState } from "react"
+import { LotteryEvent } from "../types"
+import { Button } from "./Button"
+import { createEvent, todayIsoDate } from "../services/events"
+import { prizeWinners, totalUnits } from "../services/prizes"
+import { backupFileName, createBackup, readBackup } from "../services/backup"
+import { downloadJson } from "../services/download"
+
+const DEFAULT_TEMPLATE = "default"
+
+const inputClass =
+  "bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-xs text-white min-w-0"
+
+const EventRow: React.FC<{
+  event: LotteryEvent
+  isActive: boolean
+  onSwitch: () => void
+  onArchive: (archived: boolean) => void
+  onBackup: () => void
+}> = ({ event, isActive, onSwitch, onArchive, onBackup }) => (
+  <div
+    className={`flex items-center gap-3 rounded-xl px-4 py-3 border ${
+      isActive ? "bg-blue-500/10 border-blue-500/40" : "bg-white/5 border-white/5"
+    }`}>
+    <div className='min-w-0 flex-1'>
+      <div className='font-bold text-sm truncate'>{event.name}</div>
+      <div className='text-[10px] text-gray-500 font-bold'>
+        {event.date} &bull; {event.participants.length} оролцогч &bull;{" "}
+        {prizeWinners(event.winners).length}/{totalUnits(event.prizes)} азтан
+      </div>
+    </div>
+    <Button variant='ghost' size='sm' onClick={onBackup}>
+      Нөөц
+    </Button>
+    {isActive ? (
+      <span className='text-[9px] uppercase font-bold text-blue-400'>Идэвхтэй</span>
+    ) : event.archived ? (
+      <Button variant='ghost' size='sm' onClick={() => onArchive(false)}>
+        Сэргээх
+      </Button>
+    ) : (
+      <>
+        <Button variant='ghost' size='sm' onClick={() => onArchive(true)}>
+          Архивлах
+        </Button>
+        <Button variant='primary' size='sm' onClick={onSwitch}>
+          Нээх
+        </Button>
+      </>
+    )}
+  </div>
+)
+
+export const EventManager: React.FC<{
+  events: LotteryEvent[]
+  activeEventId: string
+  onCreate: (event: LotteryEvent) => void
+  onSwitch: (eventId: string) => void
+  onArchive: (eventId: string, archived: boolean) => void
+  onRestore: (event: LotteryEvent) => void
+}> = ({ events, activeEventId, onCreate, onSwitch, onArchive, onRestore }) => {
+  const restoreInputRef = useRef<HTMLInputElement>(null)
+  const [backupError, setBackupError] = useState<string | null>(null)
+  const [name, setName] = useState("")
+  const [date, setDate] = useState(todayIsoDate)
+  const [templateId, setTemplateId] = useState(DEFAULT_TEMPLATE)
+
+  const openEvents = events.filter((e) => !e.archived)
+  const pastEvents = events
+    .filter((e) => e.archived)
+    .sort((a, b) => b.date.localeCompare(a.date))
+
+  const handleCreate = () => {
+    const template = events.find((e) => e.id === templateId)
+    onCreate(createEvent(name, date, template))
+    setName("")
+  }
+
+  const handleBackup = async (event: LotteryEvent) => {
+    setBackupError(null)
+    try {
+      downloadJson(backupFileName(event), await createBackup(event))
+    } catch (e) {
+      console.error("Backup error:", e)
+      setBackupError(e instanceof Error ? e.message : String(e))
+    }
+  }
+
+  const handleRestore = async (file: File) => {
+    setBackupError(null)
+    try {
+      onRestore(await readBackup(await file.text()))
+    } catch (e) {
+      console.error("Restore error:", e)
+      setBackupError(e instanceof Error ? e.message : String(e))
+    } finally {
+      if (restoreInputRef.current) restoreInputRef.current.value = ""
+    }
+  }
+
+  const renderRow = (event: LotteryEvent) => (
+    <EventRow
+      key={event.id}
+      event={event}
+      isActive={event.id === activeEventId}
+      onSwitch={() => onSwitch(event.id)}
+      onArchive={(archived) => onArchive(event.id, archived)}
+      onBackup={() => handleBackup(event)}
+    />
+  )
+
+  return (
+    <div className='flex flex-col gap-4'>
+      <div className='bg-white/5 rounded-2xl p-3 flex flex-col gap-2'>
+        <h4 className='text-[10px] uppercase font-bold text-gray-400'>
+          Шинэ арга хэмжээ
+        </h4>
+        <div className='flex flex-wrap items-center gap-2'>
+          <input
+            className={`${inputClass} flex-1`}
+            value={name}
+            placeholder='Нэр, ж: 2026 оны I улирлын сугалаа'
+            onChange={(e) => setName(e.target.value)}
+          />
+          <input
+            type='date'
+            className={inputClass}
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+          />
+        </div>
+        <div className='flex flex-wrap items-center gap-2'>
+          <label className='flex items-center gap-2 flex-1 text-[10px] uppercase font-bold text-gray-400'>
+            Загвар
+            <select
+              className={`${inputClass} flex-1`}
+              value={templateId}
+              onChange={(e) => setTemplateId(e.target.value)}>
+              <option value={DEFAULT_TEMPLATE}>Үндсэн жагсаалт</option>
+              {events.map((e) => (
+                <option key={e.id} value={e.id}>
+                  {e.name} ({e.date})
+                </option>
+              ))}
+            </select>
+          </label>
+          <Button variant='primary' size='sm' onClick={handleCreate} disabled={!date}>
+            Үүсгэх
+          </Button>
+        </div>
+      </div>
+
+      <div className='bg-white/5 rounded-2xl p-3 flex flex-wrap items-center gap-2'>
+        <p className='flex-1 text-[10px] text-gray-400'>
+          Өөр компьютерээс татсан нөөц файлаар арга хэмжээг бүх азтан, бүртгэлтэй нь
+          сэргээнэ.
+        </p>
+        <input
+          ref={restoreInputRef}
+          type='file'
+          accept='.json,application/json'
+          className='hidden'
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) handleRestore(file)
+          }}
+        />
+        <Button
+          variant='ghost'
+          size='sm'
+          onClick={() => restoreInputRef.current?.click()}>
+          Нөөцөөс сэргээх
+        </Button>
+        {backupError && <p className='w-full text-red-300 text-xs'>{backupError}</p>}
+      </div>
+
+      <div className='flex flex-col gap-2'>
+        <h4 className='text-[10px] uppercase font-bold text-gray-400'>Арга хэмжээнүүд</h4>
+        {openEvents.map(renderRow)}
+      </div>
+
+      {pastEvents.length > 0 && (
+        <div className='flex flex-col gap-2'>
+          <h4 className='text-[10px] uppercase font-bold text-gray-400'>Өнгөрсөн</h4>
+          {pastEvents.map(renderRow)}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,127 @@
+import React, { useState } from "react"
+import { Exclusion, LotteryEvent, Participant } from "../types"
+import { Button } from "./Button"
+import { ImportMode, ParticipantImport } from "./ParticipantImport"
+import { ImportedRow } from "../services/participantImport"
+import { STAFF_REASON } from "../services/exclusions"
+import { prizeWinners } from "../services/prizes"
+
+const inputClass =
+  "bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-xs text-white min-w-0"
+
+export const ExclusionList: React.FC<{
+  exclusions: Exclusion[]
+  participants: Participant[]
+  events: LotteryEvent[]
+  activeEventId: string
+  locked: boolean
+  onImport: (rows: ImportedRow[], mode: ImportMode, reason: string) => void
+  onCarryOver: (eventId: string) => void
+  onRemove: (memberNo: string) => void
+}> = ({
+  exclusions,
+  participants,
+  events,
+  activeEventId,
+  locked,
+  onImport,
+  onCarryOver,
+  onRemove,
+}) => {
+  const [reason, setReason] = useState(STAFF_REASON)
+  const [sourceEventId, setSourceEventId] = useState("")
+
+  const listed = new Set(participants.map((p) => p.memberNo))
+  const matched = exclusions.filter((e) => listed.has(e.memberNo)).length
+  const pastEvents = events.filter(
+    (e) => e.id !== activeEventId && prizeWinners(e.winners).length > 0
+  )
+
+  return (
+    <div className='flex flex-col gap-4'>
+      {locked ? (
+        <div className='bg-white/5 rounded-2xl p-4 text-xs text-gray-300'>
+          Баталгаа нийтэлсэн тул хасагдсан жагсаалтыг өөрчлөх боломжгүй.
+        </div>
+      ) : (
+        <>
+          <div className='bg-white/5 rounded-2xl p-3 flex flex-col gap-2'>
+            <h4 className='text-[10px] uppercase font-bold text-gray-400'>
+              Өмнөх арга хэмжээний азтнууд
+            </h4>
+            <div className='flex flex-wrap items-center gap-2'>
+              <select
+                className={`${inputClass} flex-1`}
+                value={sourceEventId}
+                onChange={(e) => setSourceEventId(e.target.value)}>
+                <option value=''>Арга хэмжээ сонгох</option>
+                {pastEvents.map((e) => (
+                  <option key={e.id} value={e.id}>
+                    {e.name} ({e.date}) &bull; {prizeWinners(e.winners).length} азтан
+                  </option>
+                ))}
+              </select>
+              <Button
+                variant='ghost'
+                size='sm'
+                disabled={!sourceEventId}
+                onClick={() => onCarryOver(sourceEventId)}>
+                Хасах
+              </Button>
+            </div>
+          </div>
+
+          <div className='bg-white/5 rounded-2xl p-3 flex flex-col gap-3'>
+            <h4 className='text-[10px] uppercase font-bold text-gray-400'>
+              Файлаас оруулах
+            </h4>
+            <label className='flex items-center gap-2 text-[10px] uppercase font-bold text-gray-400'>
+              Шалтгаан
+              <input
+                className={`${inputClass} flex-1`}
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </label>
+            <ParticipantImport
+              currentCount={exclusions.length}
+              onCommit={(rows, mode) => onImport(rows, mode, reason)}
+            />
+          </div>
+        </>
+      )}
+
+      <div className='flex flex-col gap-2'>
+        <h4 className='text-[10px] uppercase font-bold text-gray-400'>
+          Хасагдсан ({exclusions.length}, жагсаалтад {matched})
+        </h4>
+        {exclusions.length === 0 && (
+          <div className='text-center text-gray-600 text-[10px] uppercase py-4'>
+            Хасагдсан хүн алга
+          </div>
+        )}
+        {exclusions.map((exclusion) => (
+          <div
+            key={exclusion.memberNo}
+            className='flex items-center gap-3 bg-white/5 rounded-xl px-3 py-2 text-xs'>
+            <div className='min-w-0 flex-1'>
+              <div className='font-mono truncate'>{exclusion.name}</div>
+              <div className='text-[10px] text-gray-500'>
+                {exclusion.reason}
+                {!listed.has(exclusion.memberNo) && " • жагсаалтад алга"}
+              </div>
+            </div>
+            {!locked && (
+              <button
+                title='Хасалтыг болиулах'
+                className='text-gray-500 hover:text-red-300'
+                onClick={() => onRemove(exclusion.memberNo)}>
+                ✕
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,98 @@
+import React from "react"
+import { Commitment, LotteryEvent } from "../types"
+import { Button } from "./Button"
+import { QrCode } from "./QrCode"
+import { buildVerificationBundle } from "../services/fairness"
+import { downloadJson } from "../services/download"
+import { VERIFIER_HASH } from "../constants"
+
+// Commitment shown on the big screen before the first draw
+export const CommitmentPanel: React.FC<{
+  commitment: Commitment
+  compact?: boolean
+  // Filled in after the event, so the room can check the seed against the hash
+  revealedSeed?: string
+}> = ({ commitment, compact, revealedSeed }) => (
+  <div className='flex items-center gap-4 bg-black/40 border border-white/10 rounded-2xl p-4 text-left'>
+    <QrCode value={`sha256:${commitment.hash}`} size={compact ? 96 : 140} />
+    <div className='min-w-0'>
+      <p className='text-gray-400 text-[9px] uppercase tracking-[0.2em] font-bold mb-1'>
+        Сугалааны баталгаа (SHA-256)
+      </p>
+      <p className='font-mono text-xs text-white break-all mb-2'>{commitment.hash}</p>
+      <p className='text-gray-500 text-[9px] uppercase font-bold'>Оролцогчдын жагсаалт</p>
+      <p className='font-mono text-[10px] text-gray-400 break-all'>
+        {commitment.participantsHash}
+      </p>
+      <p className='text-gray-500 text-[9px] uppercase font-bold mt-1'>Шагнал, дүрэм</p>
+      <p className='font-mono text-[10px] text-gray-400 break-all'>
+        {commitment.rulesHash}
+      </p>
+      {revealedSeed && (
+        <>
+          <p className='text-gray-500 text-[9px] uppercase font-bold mt-1'>Seed</p>
+          <p className='font-mono text-[10px] text-white break-all'>{revealedSeed}</p>
+        </>
+      )}
+    </div>
+  </div>
+)
+
+export const PublishCommitment: React.FC<{ onPublish: () => void }> = ({ onPublish }) => (
+  <div className='flex flex-col items-center gap-3'>
+    <p className='text-sm text-gray-300 font-light max-w-sm'>
+      Сугалаа эхлэхээс өмнө оролцогчдын жагсаалт, шагнал, дүрэм болон нууц seed-ийн
+      баталгааг нийтэлнэ. Нийтэлсний дараа шагнал, дүрмийг өөрчлөх боломжгүй.
+    </p>
+    <Button variant='primary' onClick={onPublish}>
+      Баталгаа нийтлэх
+    </Button>
+  </div>
+)
+
+// After the event: reveal the seed and hand out the data needed to verify it
+export const SeedRevealPanel: React.FC<{ event: LotteryEvent; onReveal: () => void }> = ({
+  event,
+  onReveal,
+}) => {
+  if (!event.commitment) return null
+  if (!event.seedRevealed) {
+    return (
+      <Button variant='primary' size='sm' onClick={onReveal}>
+        Seed нээх
+      </Button>
+    )
+  }
+  return (
+    <div className='flex flex-col items-center gap-3'>
+      <div className='flex items-center gap-4 bg-black/40 border border-white/10 rounded-2xl p-4 text-left'>
+        <QrCode value={event.seed} size={120} />
+        <div className='min-w-0 max-w-xs'>
+          <p className='text-gray-400 text-[9px] uppercase tracking-[0.2em] font-bold mb-1'>
+            Seed
+          </p>
+          <p className='font-mono text-xs text-white break-all'>{event.seed}</p>
+        </div>
+      </div>
+      <div className='flex gap-2'>
+        <Button
+          variant='ghost'
+          size='sm'
+          onClick={() =>
+            downloadJson(
+              `verification-${event.date}.json`,
+              buildVerificationBundle(event)
+            )
+          }>
+          Өгөгдөл татах
+        </Button>
+        <Button
+          variant='ghost'
+          size='sm'
+          onClick={() => window.open(`/${VERIFIER_HASH}`, "_blank")}>
+          Шалгах
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from "react"
+import { KeyAction, Keymap } from "../types"
+import { Button } from "./Button"
+import { DEFAULT_KEYMAP } from "../constants"
+import {
+  KEY_ACTIONS,
+  KEY_ACTION_LABELS,
+  bindKey,
+  keyLabel,
+  unbindKey,
+} from "../services/keymap"
+
+// Help overlay listing the bindings. "+ Товч" waits for the next key press (a clicker
+// button works too) and binds it to that action.
+export const KeymapHelp: React.FC<{
+  keymap: Keymap
+  onChange: (keymap: Keymap) => void
+  onClose: () => void
+}> = ({ keymap, onChange, onClose }) => {
+  const [capturing, setCapturing] = useState<KeyAction | null>(null)
+
+  useEffect(() => {
+    if (!capturing) return
+    // Capture phase, so the key never reaches the app's own shortcuts
+    const handleKey = (e: KeyboardEvent) => {
+      e.preventDefault()
+      e.stopImmediatePropagation()
+      if (e.key !== "Escape") onChange(bindKey(keymap, capturing, e.key))
+      setCapturing(null)
+    }
+    window.addEventListener("keydown", handleKey, true)
+    return () => window.removeEventListener("keydown", handleKey, true)
+  }, [capturing, keymap, onChange])
+
+  return (
+    <div className='fixed inset-0 z-50 flex items-center justify-center p-4'>
+      <div
+        className='absolute inset-0 bg-black/90 backdrop-blur-xl animate-in fade-in duration-300'
+        onClick={onClose}
+      />
+      <div className='relative w-full max-w-lg bg-gradient-to-b from-white/[0.1] to-transparent border border-white/20 p-6 rounded-[2rem] shadow-2xl animate-in zoom-in-95 fade-in duration-300'>
+        <h2 className='text-xl font-black text-white mb-4 text-center'>Товчлол</h2>
+        <div className='flex flex-col gap-2 mb-6'>
+          {KEY_ACTIONS.map((action) => (
+            <div
+              key={action}
+              className='flex items-center gap-3 bg-white/5 rounded-xl px-3 py-2 text-xs'>
+              <div className='flex-1 text-gray-300'>{KEY_ACTION_LABELS[action]}</div>
+              <div className='flex flex-wrap justify-end gap-1'>
+                {keymap[action].map((key) => (
+                  <span
+                    key={key}
+                    className='flex items-center gap-1 bg-black/40 border border-white/10 rounded-lg px-2 py-1 font-mono'>
+                    {keyLabel(key)}
+                    <button
+                      title='Устгах'
+                      className='text-gray-500 hover:text-red-300'
+                      onClick={() => onChange(unbindKey(keymap, action, key))}>
+                      ✕
+                    </button>
+                  </span>
+                ))}
+                <button
+                  className={`rounded-lg px-2 py-1 text-[10px] uppercase font-bold ${
+                    capturing === action
+                      ? "bg-[#1d58f4] text-white animate-pulse"
+                      : "text-blue-400 hover:text-white"
+                  }`}
+                  onClick={() => setCapturing(capturing === action ? null : action)}>
+                  {capturing === action ? "Товч дарна уу" : "+ Товч"}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className='flex justify-center gap-2'>
+          <Button variant='ghost' size='sm' onClick={() => onChange(DEFAULT_KEYMAP)}>
+            Анхдагч
+          </Button>
+          <Button variant='primary' size='sm' onClick={onClose}>
+            Хаах
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,72 @@
+import React, { useEffect, useMemo, useState } from "react"
+import { Participant } from "../types"
+import { secureShuffle } from "../services/drawEngine"
+
+// A strip of names scrolls up and settles with the winner in the window
+const STRIP_LENGTH = 100
+const WINNER_SLOT = 45
+const ROW_HEIGHT = 60
+const WINDOW_HEIGHT = 250
+const START_DELAY_MS = 50
+const SPIN_MS = 5000
+const HOLD_MS = 250
+
+export const rollerDuration = () => START_DELAY_MS + SPIN_MS + HOLD_MS
+
+export const NameRoller: React.FC<{ names: string[]; winner: Participant | null }> = ({
+  names,
+  winner,
+}) => {
+  const winnerName = winner?.name || null
+  const [isSpinning, setIsSpinning] = useState(false)
+  const spinList = useMemo(() => {
+    const shuffled = secureShuffle(names)
+    // Short lists repeat, so the strip is always full length
+    const strip = Array.from(
+      { length: STRIP_LENGTH },
+      (_, i) => shuffled[i % shuffled.length] || ""
+    )
+    if (winnerName) strip[WINNER_SLOT] = winnerName
+    return strip
+  }, [winnerName, names])
+
+  useEffect(() => {
+    if (winnerName) {
+      const timer = setTimeout(() => setIsSpinning(true), START_DELAY_MS)
+      return () => clearTimeout(timer)
+    } else {
+      setIsSpinning(false)
+    }
+  }, [winnerName])
+
+  return (
+    <div
+      className='relative w-full overflow-hidden flex flex-col items-center bg-black/40 rounded-3xl border border-white/5 shadow-inner'
+      style={{ height: WINDOW_HEIGHT }}>
+      <div
+        className='absolute top-1/2 left-0 w-full -translate-y-1/2 border-y border-blue-500/30 bg-blue-500/5 z-10 pointer-events-none'
+        style={{ height: ROW_HEIGHT + 10 }}>
+        <div className='absolute inset-0 bg-gradient-to-r from-blue-500/10 via-transparent to-blue-500/10' />
+      </div>
+      <div className='absolute top-0 left-0 w-full h-20 bg-gradient-to-b from-[#0a0a0a] to-transparent z-10 pointer-events-none' />
+      <div className='absolute bottom-0 left-0 w-full h-20 bg-gradient-to-t from-[#0a0a0a] to-transparent z-10 pointer-events-none' />
+      <div
+        className='flex flex-col transition-transform ease-[cubic-bezier(0.15,0,0.05,1)]'
+        style={{
+          transitionDuration: `${SPIN_MS}ms`,
+          transform: isSpinning
+            ? `translateY(${(WINDOW_HEIGHT - ROW_HEIGHT) / 2 - WINNER_SLOT * ROW_HEIGHT}px)`
+            : "translateY(0px)",
+        }}>
+        {spinList.map((name, i) => (
+          <div
+            key={i}
+            className='flex items-center justify-center text-xl md:text-2xl font-mono text-[#f1f1f1] opacity-80'
+            style={{ height: ROW_HEIGHT }}>
+            {name}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
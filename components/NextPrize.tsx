@@ -0,0 +1,36 @@
+import React from "react"
+import { Prize } from "../types"
+
+// Icon and name of the prize about to be drawn, on the console and the audience screen
+export const NextPrize: React.FC<{ prize: Prize; poolSize: number }> = ({
+  prize,
+  poolSize,
+}) => (
+  <>
+    <div className='relative inline-block mb-2'>
+      <div className='text-6xl md:text-8xl mb-1 drop-shadow-[0_10px_30px_rgba(29,88,244,0.4)]'>
+        {prize.icon}
+      </div>
+      {prize.isBigWinner && (
+        <div className='absolute -top-2 -right-6 bg-[#1d58f4] text-[8px] px-2 py-1 rounded-full uppercase font-bold'>
+          Тусгай
+        </div>
+      )}
+    </div>
+    <div className='mb-4'>
+      <h3 className='text-gray-500 uppercase tracking-widest text-[9px] mb-1'>
+        Дараагийн шагнал &bull; {poolSize} оролцогч
+      </h3>
+      <h2
+        className={`text-3xl md:text-5xl font-black ${
+          prize.isBigWinner
+            ? prize.name == "iPhone 17 Pro Max"
+              ? "text-[#F77E2D]"
+              : "text-[#1d58f4]"
+            : "text-white"
+        }`}>
+        {prize.name}
+      </h2>
+    </div>
+  </>
+)
@@ -0,0 +1,300 @@
+import React, { useMemo, useRef, useState } from "react"
+import { Button } from "./Button"
+import {
+  ColumnMapping,
+  ImportedRow,
+  SheetRows,
+  SUPPORTED_EXTENSIONS,
+  buildImport,
+  detectColumns,
+  readSpreadsheet,
+} from "../services/participantImport"
+
+export type ImportMode = "append" | "replace"
+
+const PREVIEW_LIMIT = 50
+
+const columnLabel = (rows: SheetRows, hasHeader: boolean, index: number) => {
+  const header = hasHeader ? rows[0]?.[index]?.trim() : ""
+  return header ? `${index + 1}. ${header}` : `${index + 1}-р багана`
+}
+
+// Column picker for the optional fields; -1 leaves the field unset for everyone
+const OptionalColumnSelect: React.FC<{
+  label: string
+  noneLabel: string
+  value: number
+  rows: SheetRows
+  hasHeader: boolean
+  columnCount: number
+  className: string
+  onChange: (column: number) => void
+}> = ({ label, noneLabel, value, rows, hasHeader, columnCount, className, onChange }) => (
+  <label className='flex flex-col gap-1 text-[10px] uppercase text-gray-400 font-bold'>
+    {label}
+    <select
+      className={className}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}>
+      <option value={-1}>{noneLabel}</option>
+      {Array.from({ length: columnCount }, (_, i) => (
+        <option key={i} value={i}>
+          {columnLabel(rows, hasHeader, i)}
+        </option>
+      ))}
+    </select>
+  </label>
+)
+
+export const ParticipantImport: React.FC<{
+  currentCount: number
+  onCommit: (rows: ImportedRow[], mode: ImportMode) => void
+}> = ({ currentCount, onCommit }) => {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [rows, setRows] = useState<SheetRows>([])
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [mode, setMode] = useState<ImportMode>("append")
+  const [isDragging, setIsDragging] = useState(false)
+
+  const result = useMemo(
+    () => (mapping ? buildImport(rows, mapping) : null),
+    [rows, mapping]
+  )
+  const columnCount = useMemo(() => Math.max(0, ...rows.map((r) => r.length)), [rows])
+
+  const reset = () => {
+    setFileName(null)
+    setRows([])
+    setMapping(null)
+    if (inputRef.current) inputRef.current.value = ""
+  }
+
+  const handleFile = async (file: File) => {
+    setError(null)
+    try {
+      const parsed = await readSpreadsheet(file)
+      setFileName(file.name)
+      setRows(parsed)
+      setMapping(detectColumns(parsed))
+    } catch (e) {
+      console.error("Participant import error:", e)
+      reset()
+      setError(e instanceof Error ? e.message : "Файл уншихад алдаа гарлаа")
+    }
+  }
+
+  const handleCommit = () => {
+    if (!result || result.accepted.length === 0) return
+    onCommit(result.accepted, mode)
+    reset()
+  }
+
+  const selectClass =
+    "bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-xs text-white"
+
+  return (
+    <div className='flex flex-col gap-4 min-h-0'>
+      <div
+        onDragOver={(e) => {
+          e.preventDefault()
+          setIsDragging(true)
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault()
+          setIsDragging(false)
+          const file = e.dataTransfer.files[0]
+          if (file) handleFile(file)
+        }}
+        onClick={() => inputRef.current?.click()}
+        className={`cursor-pointer rounded-2xl border-2 border-dashed p-6 text-center transition-all duration-300 ${
+          isDragging
+            ? "border-blue-500 bg-blue-500/10"
+            : "border-white/10 bg-white/[0.02] hover:border-white/30"
+        }`}>
+        <input
+          ref={inputRef}
+          type='file'
+          accept={SUPPORTED_EXTENSIONS.join(",")}
+          className='hidden'
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) handleFile(file)
+          }}
+        />
+        <div className='text-3xl mb-2'>📄</div>
+        <p className='text-sm font-bold'>
+          {fileName || "CSV эсвэл Excel файлаа энд чирч оруулна уу"}
+        </p>
+        <p className='text-[10px] text-gray-500 uppercase tracking-widest mt-1'>
+          {SUPPORTED_EXTENSIONS.join(" ")}
+        </p>
+      </div>
+
+      {error && (
+        <div className='bg-red-900/30 border border-red-500/30 text-red-200 text-xs rounded-xl p-3'>
+          {error}
+        </div>
+      )}
+
+      {mapping && result && (
+        <>
+          <div className='flex flex-wrap items-end gap-4'>
+            <label className='flex flex-col gap-1 text-[10px] uppercase text-gray-400 font-bold'>
+              Нэр
+              <select
+                className={selectClass}
+                value={mapping.nameColumn}
+                onChange={(e) =>
+                  setMapping({ ...mapping, nameColumn: Number(e.target.value) })
+                }>
+                {Array.from({ length: columnCount }, (_, i) => (
+                  <option key={i} value={i}>
+                    {columnLabel(rows, mapping.hasHeader, i)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className='flex flex-col gap-1 text-[10px] uppercase text-gray-400 font-bold'>
+              Гишүүний дугаар
+              <select
+                className={selectClass}
+                value={mapping.memberNoColumn}
+                onChange={(e) =>
+                  setMapping({ ...mapping, memberNoColumn: Number(e.target.value) })
+                }>
+                <option value={-1}>Нэр дотор ("НЭР-ДУГААР")</option>
+                {Array.from({ length: columnCount }, (_, i) => (
+                  <option key={i} value={i}>
+                    {columnLabel(rows, mapping.hasHeader, i)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <OptionalColumnSelect
+              label='Тасалбар'
+              noneLabel='Бүгд 1'
+              value={mapping.ticketsColumn}
+              rows={rows}
+              hasHeader={mapping.hasHeader}
+              columnCount={columnCount}
+              className={selectClass}
+              onChange={(ticketsColumn) => setMapping({ ...mapping, ticketsColumn })}
+            />
+            <OptionalColumnSelect
+              label='Шошго'
+              noneLabel='Байхгүй'
+              value={mapping.tagsColumn}
+              rows={rows}
+              hasHeader={mapping.hasHeader}
+              columnCount={columnCount}
+              className={selectClass}
+              onChange={(tagsColumn) => setMapping({ ...mapping, tagsColumn })}
+            />
+            <OptionalColumnSelect
+              label='Сан'
+              noneLabel='Байхгүй'
+              value={mapping.poolColumn}
+              rows={rows}
+              hasHeader={mapping.hasHeader}
+              columnCount={columnCount}
+              className={selectClass}
+              onChange={(poolColumn) => setMapping({ ...mapping, poolColumn })}
+            />
+            <label className='flex items-center gap-2 text-xs text-gray-300 pb-2'>
+              <input
+                type='checkbox'
+                checked={mapping.hasHeader}
+                onChange={(e) => setMapping({ ...mapping, hasHeader: e.target.checked })}
+              />
+              Эхний мөр гарчиг
+            </label>
+          </div>
+
+          <div className='grid grid-cols-1 md:grid-cols-2 gap-4 min-h-0'>
+            <div className='flex flex-col min-h-0'>
+              <h4 className='text-[10px] uppercase font-bold text-gray-400 mb-2'>
+                Хүлээн авсан ({result.accepted.length})
+              </h4>
+              <div className='max-h-56 overflow-y-auto custom-scrollbar space-y-1 pr-2'>
+                {result.accepted.slice(0, PREVIEW_LIMIT).map((row) => (
+                  <div
+                    key={row.line}
+                    className='flex justify-between text-xs font-mono bg-white/5 rounded-lg px-3 py-1.5'>
+                    <span className='truncate'>{row.name}</span>
+                    <span className='text-gray-400'>
+                      {row.memberNo}
+                      {row.tickets > 1 && <> &times;{row.tickets}</>}
+                      {row.pool && <> @{row.pool}</>}
+                      {row.tags.length > 0 && <> #{row.tags.join(",")}</>}
+                    </span>
+                  </div>
+                ))}
+                {result.accepted.length > PREVIEW_LIMIT && (
+                  <div className='text-[10px] text-gray-500 text-center py-1'>
+                    + {result.accepted.length - PREVIEW_LIMIT}
+                  </div>
+                )}
+              </div>
+            </div>
+            <div className='flex flex-col min-h-0'>
+              <h4 className='text-[10px] uppercase font-bold text-red-300 mb-2'>
+                Татгалзсан ({result.rejected.length})
+              </h4>
+              <div className='max-h-56 overflow-y-auto custom-scrollbar space-y-1 pr-2'>
+                {result.rejected.map((row) => (
+                  <div
+                    key={row.line}
+                    className='text-xs bg-red-900/20 border border-red-500/10 rounded-lg px-3 py-1.5'>
+                    <div className='flex justify-between gap-2'>
+                      <span className='text-gray-500'>#{row.line}</span>
+                      <span className='text-red-200'>{row.reason}</span>
+                    </div>
+                    <div className='font-mono text-gray-400 truncate'>
+                      {row.values.join(" | ")}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className='flex flex-wrap items-center justify-between gap-4'>
+            <div className='flex items-center gap-4 text-xs'>
+              <label className='flex items-center gap-2'>
+                <input
+                  type='radio'
+                  checked={mode === "append"}
+                  onChange={() => setMode("append")}
+                />
+                Нэмэх ({currentCount} + {result.accepted.length})
+              </label>
+              <label className='flex items-center gap-2'>
+                <input
+                  type='radio'
+                  checked={mode === "replace"}
+                  onChange={() => setMode("replace")}
+                />
+                Солих ({result.accepted.length})
+              </label>
+            </div>
+            <div className='flex gap-2'>
+              <Button variant='ghost' size='sm' onClick={reset}>
+                Цуцлах
+              </Button>
+              <Button
+                variant='primary'
+                size='sm'
+                onClick={handleCommit}
+                disabled={result.accepted.length === 0}>
+                Хадгалах
+              </Button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
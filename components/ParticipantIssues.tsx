@@ -0,0 +1,72 @@
+import React from "react"
+import { Participant } from "../types"
+import { Button } from "./Button"
+import { ParticipantIssue, ParticipantIssueKind } from "../services/participantValidation"
+
+const KIND_LABELS: Record<ParticipantIssueKind, string> = {
+  duplicate: "Давхардсан",
+  conflict: "Дугаар зөрчилтэй",
+  similar: "Төстэй",
+}
+
+export const ParticipantIssues: React.FC<{
+  participants: Participant[]
+  issues: ParticipantIssue[]
+  onRemove: (indices: number[]) => void
+  onAcknowledge: (key: string) => void
+}> = ({ participants, issues, onRemove, onAcknowledge }) => {
+  if (issues.length === 0) return null
+  return (
+    <div className='bg-red-900/20 border border-red-500/30 rounded-2xl p-4 mb-4'>
+      <h4 className='text-[10px] uppercase font-bold text-red-300 mb-3'>
+        Шийдвэрлэх шаардлагатай ({issues.length})
+      </h4>
+      <div className='max-h-64 overflow-y-auto custom-scrollbar space-y-2 pr-2'>
+        {issues.map((issue) => (
+          <div key={issue.key} className='bg-black/30 rounded-xl p-3 text-xs'>
+            <div className='flex items-center justify-between gap-2 mb-2'>
+              <span className='text-red-200'>{issue.message}</span>
+              <span className='shrink-0 text-[9px] uppercase font-bold text-gray-500'>
+                {KIND_LABELS[issue.kind]}
+              </span>
+            </div>
+            <div className='space-y-1'>
+              {issue.indices.map((index) => (
+                <div
+                  key={index}
+                  className='flex items-center justify-between gap-2 font-mono bg-white/5 rounded-lg px-3 py-1'>
+                  <span className='truncate'>
+                    #{index + 1} {participants[index]?.name}
+                  </span>
+                  <button
+                    className='text-[10px] uppercase font-bold text-red-300 hover:text-red-100'
+                    onClick={() => onRemove([index])}>
+                    Хасах
+                  </button>
+                </div>
+              ))}
+            </div>
+            <div className='flex justify-end gap-2 mt-2'>
+              {issue.kind === "duplicate" && (
+                <Button
+                  variant='danger'
+                  size='sm'
+                  onClick={() => onRemove(issue.indices.slice(1))}>
+                  Нэгийг үлдээх
+                </Button>
+              )}
+              {issue.kind === "similar" && (
+                <Button
+                  variant='ghost'
+                  size='sm'
+                  onClick={() => onAcknowledge(issue.key)}>
+                  Өөр хүмүүс
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,150 @@
+import React, { useState } from "react"
+import { Button } from "./Button"
+import { QrCode } from "./QrCode"
+import { AUDIENCE_HASH } from "../constants"
+import { RemoteSession, RemoteStopReason } from "../services/remoteControl"
+import { SoundSettings } from "../types"
+
+const STOP_MESSAGES: Record<RemoteStopReason, string> = {
+  unreachable: "Сервер олдсонгүй",
+  refused: "Токен буруу байна",
+  replaced: "Өөр цонх утсан удирдлагыг авсан",
+}
+
+// Pairing details once connected; until then the console token from the terminal
+const RemoteBox: React.FC<{
+  remote: RemoteSession | null
+  connecting: boolean
+  stopped: RemoteStopReason | null
+  onConnect: (token: string) => void
+}> = ({ remote, connecting, stopped, onConnect }) => {
+  const [draft, setDraft] = useState("")
+
+  if (remote) {
+    return (
+      <>
+        {remote.urls[0] && <QrCode value={remote.urls[0]} size={72} />}
+        <div className='min-w-0 text-[10px] uppercase font-bold text-gray-400'>
+          <div>Утасны код</div>
+          <div className='text-xl text-white font-mono tracking-[0.2em]'>
+            {remote.code}
+          </div>
+          <div className='normal-case font-mono truncate'>{remote.urls[0]}</div>
+          <div className={remote.remotes > 0 ? "text-green-400" : ""}>
+            {remote.remotes} утас холбогдсон
+          </div>
+        </div>
+      </>
+    )
+  }
+  if (connecting) {
+    return <div className='text-[10px] text-gray-500'>Холбогдож байна...</div>
+  }
+  return (
+    <div className='flex flex-col gap-2 text-[10px] text-gray-500 min-w-0'>
+      <div>
+        Утсаар удирдахын тулд <span className='font-mono'>npm run remote</span> ажиллуулж,
+        гарсан console token-ийг оруулна уу
+      </div>
+      {stopped && <div className='text-red-300'>{STOP_MESSAGES[stopped]}</div>}
+      <div className='flex items-center gap-2'>
+        <input
+          className='flex-1 min-w-0 bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-xs text-white font-mono'
+          value={draft}
+          placeholder='Console token'
+          onChange={(e) => setDraft(e.target.value)}
+        />
+        <Button
+          variant='ghost'
+          size='sm'
+          disabled={!draft.trim()}
+          onClick={() => onConnect(draft.trim())}>
+          Холбох
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+// Console-only strip under the stage: the audience window, the phone remote, sound and
+// the host's notes
+export const PresenterPanel: React.FC<{
+  audienceConnected: boolean
+  // Null until the console is connected to the remote server (npm run remote)
+  remote: RemoteSession | null
+  remoteConnecting: boolean
+  remoteStopped: RemoteStopReason | null
+  onRemoteConnect: (token: string) => void
+  notes: string
+  onNotesChange: (notes: string) => void
+  onShowKeys: () => void
+  sound: SoundSettings
+  onSoundChange: (sound: SoundSettings) => void
+}> = ({
+  audienceConnected,
+  remote,
+  remoteConnecting,
+  remoteStopped,
+  onRemoteConnect,
+  notes,
+  onNotesChange,
+  onShowKeys,
+  sound,
+  onSoundChange,
+}) => (
+  <div className='mt-4 bg-white/[0.03] border border-white/10 rounded-[2rem] p-4 flex flex-col md:flex-row gap-4'>
+    <div className='flex flex-col gap-2 md:w-48 shrink-0'>
+      <Button
+        variant='ghost'
+        size='sm'
+        onClick={() => window.open(`/${AUDIENCE_HASH}`, "zuv-audience", "popup")}>
+        Үзэгчдийн дэлгэц
+      </Button>
+      <div className='flex items-center gap-2 text-[10px] uppercase font-bold text-gray-400'>
+        <span
+          className={`w-2 h-2 rounded-full ${
+            audienceConnected ? "bg-green-400" : "bg-gray-600"
+          }`}
+        />
+        {audienceConnected ? "Холбогдсон" : "Нээгээгүй"}
+      </div>
+      <button
+        className='text-left text-[10px] uppercase font-bold text-blue-400 hover:text-white'
+        onClick={onShowKeys}>
+        Товчлол
+      </button>
+      <div className='flex items-center gap-2'>
+        <button
+          title={sound.muted ? "Дуу нээх" : "Дуу хаах"}
+          className='text-base'
+          onClick={() => onSoundChange({ ...sound, muted: !sound.muted })}>
+          {sound.muted ? "🔇" : "🔊"}
+        </button>
+        <input
+          type='range'
+          min={0}
+          max={1}
+          step={0.05}
+          className='flex-1 accent-[#1d58f4] disabled:opacity-40'
+          value={sound.volume}
+          disabled={sound.muted}
+          onChange={(e) => onSoundChange({ ...sound, volume: Number(e.target.value) })}
+        />
+      </div>
+    </div>
+    <div className='flex items-center gap-3 md:w-56 shrink-0'>
+      <RemoteBox
+        remote={remote}
+        connecting={remoteConnecting}
+        stopped={remoteStopped}
+        onConnect={onRemoteConnect}
+      />
+    </div>
+    <textarea
+      className='flex-1 min-h-[64px] bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-xs text-white resize-none custom-scrollbar'
+      placeholder='Хөтлөгчийн тэмдэглэл (зөвхөн энэ дэлгэц дээр)'
+      value={notes}
+      onChange={(e) => onNotesChange(e.target.value)}
+    />
+  </div>
+)
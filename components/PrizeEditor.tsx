@@ -0,0 +1,197 @@
+import React, { useMemo } from "react"
+import { Participant, Prize, RevealStyle, Winner } from "../types"
+import { Button } from "./Button"
+import { EligibilityEditor } from "./EligibilityEditor"
+import { REVEAL_ANIMATIONS, REVEAL_STYLES } from "./RevealAnimation"
+import { createPrize, totalUnits, wonUnits } from "../services/prizes"
+import { TIER_LABELS, prizeTier } from "../services/drawPlan"
+import {
+  eligibleForPrize,
+  participantPools,
+  participantTags,
+} from "../services/eligibility"
+
+const inputClass =
+  "bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-xs text-white min-w-0 disabled:opacity-50"
+
+const IconButton: React.FC<{
+  onClick: () => void
+  disabled?: boolean
+  title: string
+  children: React.ReactNode
+}> = ({ onClick, disabled, title, children }) => (
+  <button
+    title={title}
+    onClick={onClick}
+    disabled={disabled}
+    className='w-7 h-7 rounded-lg bg-white/5 hover:bg-white/15 text-xs disabled:opacity-30 disabled:cursor-not-allowed'>
+    {children}
+  </button>
+)
+
+export const PrizeEditor: React.FC<{
+  prizes: Prize[]
+  // Without the excluded, so the pool sizes match what the draw sees
+  participants: Participant[]
+  winners: Winner[]
+  // Set while the published commitment covers the prizes: only the icon and the reveal
+  // style may change
+  locked: boolean
+  onChange: (prizes: Prize[]) => void
+}> = ({ prizes, participants, winners, locked, onChange }) => {
+  const pools = useMemo(() => participantPools(participants), [participants])
+  const tags = useMemo(() => participantTags(participants), [participants])
+
+  const update = (index: number, patch: Partial<Prize>) =>
+    onChange(prizes.map((p, i) => (i === index ? { ...p, ...patch } : p)))
+
+  const move = (index: number, offset: number) => {
+    const next = [...prizes]
+    const [moved] = next.splice(index, 1)
+    next.splice(index + offset, 0, moved)
+    onChange(next)
+  }
+
+  return (
+    <div className='flex flex-col gap-3'>
+      {prizes.length === 0 && (
+        <div className='text-center text-gray-600 text-[10px] uppercase py-6'>
+          Шагнал нэмээгүй байна
+        </div>
+      )}
+      {prizes.map((prize, index) => {
+        const won = wonUnits(prize, winners)
+        // Replaying the draws already made depends on everything but the look
+        const fieldsLocked = locked || won > 0
+        return (
+          <div
+            key={prize.id}
+            className='bg-white/5 border border-white/5 rounded-2xl p-3 flex flex-col gap-2'>
+            <div className='flex items-center gap-2'>
+              <input
+                className={`${inputClass} w-12 text-center text-lg p-1`}
+                value={prize.icon}
+                onChange={(e) => update(index, { icon: e.target.value })}
+              />
+              <input
+                className={`${inputClass} flex-1 font-bold`}
+                value={prize.name}
+                placeholder='Шагналын нэр'
+                disabled={fieldsLocked}
+                onChange={(e) => update(index, { name: e.target.value })}
+              />
+              <IconButton
+                title='Дээш'
+                onClick={() => move(index, -1)}
+                disabled={locked || index === 0}>
+                ▲
+              </IconButton>
+              <IconButton
+                title='Доош'
+                onClick={() => move(index, 1)}
+                disabled={locked || index === prizes.length - 1}>
+                ▼
+              </IconButton>
+              <IconButton
+                title={won > 0 ? "Азтан тодорсон шагналыг устгах боломжгүй" : "Устгах"}
+                onClick={() => onChange(prizes.filter((_, i) => i !== index))}
+                disabled={locked || won > 0}>
+                ✕
+              </IconButton>
+            </div>
+            <div className='flex flex-wrap items-center gap-2 text-[10px] uppercase font-bold text-gray-400'>
+              <input
+                className={`${inputClass} flex-1`}
+                value={prize.value}
+                placeholder='Үнэ цэнэ'
+                disabled={fieldsLocked}
+                onChange={(e) => update(index, { value: e.target.value })}
+              />
+              <label className='flex items-center gap-1'>
+                Тоо
+                <input
+                  type='number'
+                  min={Math.max(1, won)}
+                  className={`${inputClass} w-16`}
+                  value={prize.quantity}
+                  disabled={fieldsLocked}
+                  onChange={(e) =>
+                    update(index, {
+                      quantity: Math.max(1, won, Math.floor(Number(e.target.value) || 0)),
+                    })
+                  }
+                />
+              </label>
+              <label className='flex items-center gap-1'>
+                Зэрэг
+                <input
+                  type='number'
+                  min={1}
+                  className={`${inputClass} w-14`}
+                  value={prize.rank}
+                  disabled={fieldsLocked}
+                  onChange={(e) =>
+                    update(index, {
+                      rank: Math.max(1, Math.floor(Number(e.target.value) || 1)),
+                    })
+                  }
+                />
+              </label>
+              <label className='flex items-center gap-1'>
+                <input
+                  type='checkbox'
+                  checked={prize.isBigWinner}
+                  disabled={fieldsLocked}
+                  onChange={(e) => update(index, { isBigWinner: e.target.checked })}
+                />
+                Тусгай
+              </label>
+              <select
+                title='Тодруулах хэлбэр'
+                className={`${inputClass} py-1`}
+                value={prize.revealStyle || ""}
+                onChange={(e) =>
+                  update(index, {
+                    revealStyle: (e.target.value as RevealStyle) || null,
+                  })
+                }>
+                <option value=''>Арга хэмжээний хэлбэр</option>
+                {REVEAL_STYLES.map((style) => (
+                  <option key={style} value={style}>
+                    {REVEAL_ANIMATIONS[style].label}
+                  </option>
+                ))}
+              </select>
+              <span className='text-gray-500'>{TIER_LABELS[prizeTier(prize)]}</span>
+              {won > 0 && (
+                <span className='text-blue-400'>
+                  {won}/{prize.quantity} тодорсон
+                </span>
+              )}
+            </div>
+            <EligibilityEditor
+              rules={prize.eligibility}
+              pools={pools}
+              tags={tags}
+              poolSize={eligibleForPrize(participants, prize).length}
+              locked={fieldsLocked}
+              onChange={(eligibility) => update(index, { eligibility })}
+            />
+          </div>
+        )
+      })}
+      <div className='flex items-center justify-between'>
+        <span className='text-[10px] text-gray-500 uppercase font-bold'>
+          Нийт {totalUnits(prizes)} ширхэг
+        </span>
+        <Button
+          variant='ghost'
+          size='sm'
+          disabled={locked}
+          onClick={() => onChange([...prizes, createPrize(prizes)])}>
+          Шагнал нэмэх
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,30 @@
+import React, { useEffect, useState } from "react"
+import QRCode from "qrcode"
+
+export const QrCode: React.FC<{ value: string; size?: number }> = ({
+  value,
+  size = 160,
+}) => {
+  const [dataUrl, setDataUrl] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    QRCode.toDataURL(value, { width: size, margin: 1 })
+      .then((url) => !cancelled && setDataUrl(url))
+      .catch((e) => console.error("QR code error:", e))
+    return () => {
+      cancelled = true
+    }
+  }, [value, size])
+
+  if (!dataUrl) return <div style={{ width: size, height: size }} />
+  return (
+    <img
+      src={dataUrl}
+      width={size}
+      height={size}
+      alt={value}
+      className='rounded-xl bg-white p-1'
+    />
+  )
+}
@@ -0,0 +1,41 @@
+import React from "react"
+import { Winner } from "../types"
+import { Button } from "./Button"
+
+// Shown after a reload interrupted a draw. The saved result can only be replayed
+// or confirmed: discarding it would let a second click pick someone else.
+export const RecoveryModal: React.FC<{
+  pending: Winner[]
+  onReplay: () => void
+  onConfirm: () => void
+}> = ({ pending, onReplay, onConfirm }) => {
+  const prize = pending[0]?.prize
+  if (!prize) return null
+  return (
+    <div className='fixed inset-0 z-50 flex items-center justify-center p-4'>
+      <div className='absolute inset-0 bg-black/95 backdrop-blur-xl animate-in fade-in duration-500' />
+      <div className='relative w-full max-w-md bg-gradient-to-b from-white/[0.1] to-transparent border border-white/20 p-8 rounded-[2rem] shadow-2xl flex flex-col items-center text-center animate-in zoom-in-95 fade-in duration-500'>
+        <div className='text-[60px] mb-4'>{prize.icon}</div>
+        <p className='text-gray-400 text-[10px] uppercase tracking-[0.2em] mb-1 font-bold'>
+          Сугалаа тасалдсан байна
+        </p>
+        <h2 className='text-2xl font-black text-white mb-2'>
+          {prize.name}
+          {pending.length > 1 && <> &times; {pending.length}</>}
+        </h2>
+        <p className='text-sm text-gray-300 font-light mb-8'>
+          Энэ шагналын {pending.length > 1 ? "азтнууд" : "азтан"} аль хэдийн тодорсон
+          бөгөөд хадгалагдсан. Үр дүнг дахин харуулна уу.
+        </p>
+        <div className='flex gap-3'>
+          <Button onClick={onConfirm} variant='ghost' size='sm'>
+            Шууд харуулах
+          </Button>
+          <Button onClick={onReplay} variant='primary' size='sm'>
+            Дахин тоглуулах
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
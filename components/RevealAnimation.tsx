@@ -0,0 +1,41 @@
+import React from "react"
+import { Participant, RevealStyle } from "../types"
+import { NameRoller, rollerDuration } from "./NameRoller"
+import { WheelReveal, wheelDuration } from "./WheelReveal"
+import { SlotReveal, slotDuration } from "./SlotReveal"
+import { EliminationReveal, eliminationDuration } from "./EliminationReveal"
+
+// A single-winner reveal gets the eligible names straight away and idles on them. Once
+// `winner` is set it has `duration` ms to land on it; after that the draw is committed
+// and the winner modal opens, so the animation alone decides the timing.
+export interface RevealProps {
+  names: string[]
+  winner: Participant | null
+}
+
+export interface RevealAnimation {
+  label: string
+  Component: React.FC<RevealProps>
+  duration: (names: string[], winner: Participant) => number
+}
+
+export const REVEAL_ANIMATIONS: Record<RevealStyle, RevealAnimation> = {
+  roller: { label: "Нэр гүйлгэх", Component: NameRoller, duration: rollerDuration },
+  wheel: { label: "Хүрд эргүүлэх", Component: WheelReveal, duration: wheelDuration },
+  slot: { label: "Дугаар оронгоор", Component: SlotReveal, duration: slotDuration },
+  elimination: {
+    label: "Хасаж тоолох",
+    Component: EliminationReveal,
+    duration: eliminationDuration,
+  },
+}
+
+export const REVEAL_STYLES = Object.keys(REVEAL_ANIMATIONS) as RevealStyle[]
+
+export const RevealStage: React.FC<RevealProps & { style: RevealStyle }> = ({
+  style,
+  ...props
+}) => {
+  const { Component } = REVEAL_ANIMATIONS[style]
+  return <Component key={style} {...props} />
+}
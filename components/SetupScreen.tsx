@@ -0,0 +1,244 @@
+import React, { useMemo, useState } from "react"
+import { DrawPlanSettings, LotteryEvent, Participant, Prize, Winner } from "../types"
+import { Button } from "./Button"
+import { ImportMode, ParticipantImport } from "./ParticipantImport"
+import { ParticipantIssues } from "./ParticipantIssues"
+import { PrizeEditor } from "./PrizeEditor"
+import { DrawPlanSettingsForm } from "./DrawPlan"
+import { EventManager } from "./EventManager"
+import { DrawSeedForm } from "./DrawSeedForm"
+import { ExclusionList } from "./ExclusionList"
+import { ImportedRow } from "../services/participantImport"
+import { ParticipantIssue } from "../services/participantValidation"
+import { ticketsOf, totalTickets } from "../services/participants"
+import { drawableParticipants, exclusionIndex } from "../services/exclusions"
+
+type SetupTab = "events" | "participants" | "exclusions" | "prizes"
+
+const TAB_LABELS: Record<SetupTab, string> = {
+  events: "Арга хэмжээ",
+  participants: "Оролцогчид",
+  exclusions: "Хасагдсан",
+  prizes: "Шагналууд",
+}
+
+export const SetupScreen: React.FC<{
+  events: LotteryEvent[]
+  activeEventId: string
+  onCreateEvent: (event: LotteryEvent) => void
+  onSwitchEvent: (eventId: string) => void
+  onArchiveEvent: (eventId: string, archived: boolean) => void
+  onRestoreEvent: (event: LotteryEvent) => void
+  participants: Participant[]
+  issues: ParticipantIssue[]
+  prizes: Prize[]
+  winners: Winner[]
+  onImport: (rows: ImportedRow[], mode: ImportMode) => void
+  onRemove: (indices: number[]) => void
+  onAcknowledge: (key: string) => void
+  onImportExclusions: (rows: ImportedRow[], mode: ImportMode, reason: string) => void
+  onCarryOverWinners: (eventId: string) => void
+  onRemoveExclusion: (memberNo: string) => void
+  onPrizesChange: (prizes: Prize[]) => void
+  drawPlanSettings: DrawPlanSettings
+  onDrawPlanChange: (settings: DrawPlanSettings) => void
+  onSeedChange: (seed: string, published: boolean) => void
+  onWithdrawCommitment: () => void
+  onStart: () => void
+}> = ({
+  events,
+  activeEventId,
+  onCreateEvent,
+  onSwitchEvent,
+  onArchiveEvent,
+  onRestoreEvent,
+  participants,
+  issues,
+  prizes,
+  winners,
+  onImport,
+  onRemove,
+  onAcknowledge,
+  onImportExclusions,
+  onCarryOverWinners,
+  onRemoveExclusion,
+  onPrizesChange,
+  drawPlanSettings,
+  onDrawPlanChange,
+  onSeedChange,
+  onWithdrawCommitment,
+  onStart,
+}) => {
+  const [tab, setTab] = useState<SetupTab>("participants")
+  const activeEvent = events.find((e) => e.id === activeEventId)
+  const drawStarted = winners.length > 0 || !!activeEvent?.pendingDraw
+  // The published commitment covers the list, the seed, the prizes and the draw rules,
+  // so all of them are fixed from then on; it can only be withdrawn before the first draw
+  const committed = drawStarted || !!activeEvent?.commitment
+  const exclusions = activeEvent?.exclusions || []
+  const excluded = exclusionIndex(exclusions)
+  const drawable = useMemo(
+    () => drawableParticipants(participants, exclusions),
+    [participants, exclusions]
+  )
+  const ticketCount = totalTickets(drawable)
+
+  return (
+    <div className='w-full max-w-6xl flex-1 flex flex-col lg:flex-row gap-6 items-stretch overflow-hidden mb-4 animate-in fade-in duration-700'>
+      <section className='flex-[1.5] flex flex-col min-h-0 bg-white/[0.03] backdrop-blur-md rounded-[2.5rem] border border-white/10 p-6'>
+        <h3 className='text-gray-500 uppercase tracking-widest text-[9px] mb-1'>
+          Тохиргоо &bull; {activeEvent?.name}
+        </h3>
+        <div className='flex gap-2 mb-4'>
+          {(Object.keys(TAB_LABELS) as SetupTab[]).map((key) => (
+            <Button
+              key={key}
+              variant={tab === key ? "primary" : "ghost"}
+              size='sm'
+              onClick={() => setTab(key)}>
+              {TAB_LABELS[key]}
+            </Button>
+          ))}
+        </div>
+        <div className='flex-1 min-h-0 overflow-y-auto custom-scrollbar pr-2'>
+          {tab === "events" && (
+            <EventManager
+              events={events}
+              activeEventId={activeEventId}
+              onCreate={onCreateEvent}
+              onSwitch={onSwitchEvent}
+              onArchive={onArchiveEvent}
+              onRestore={onRestoreEvent}
+            />
+          )}
+          {tab === "participants" &&
+            (committed ? (
+              <div className='bg-white/5 rounded-2xl p-4 text-xs text-gray-300'>
+                {drawStarted
+                  ? "Сугалаа эхэлсэн тул оролцогчдын жагсаалтыг өөрчлөх боломжгүй."
+                  : "Баталгаа нийтэлсэн тул оролцогчдын жагсаалтыг өөрчлөх боломжгүй."}
+              </div>
+            ) : (
+              <>
+                <ParticipantIssues
+                  participants={participants}
+                  issues={issues}
+                  onRemove={onRemove}
+                  onAcknowledge={onAcknowledge}
+                />
+                <ParticipantImport
+                  currentCount={participants.length}
+                  onCommit={onImport}
+                />
+              </>
+            ))}
+          {tab === "exclusions" && (
+            <ExclusionList
+              exclusions={exclusions}
+              participants={participants}
+              events={events}
+              activeEventId={activeEventId}
+              locked={committed}
+              onImport={onImportExclusions}
+              onCarryOver={onCarryOverWinners}
+              onRemove={onRemoveExclusion}
+            />
+          )}
+          {tab === "prizes" && (
+            <>
+              {committed && (
+                <div className='flex items-center justify-between gap-2 bg-white/5 rounded-2xl p-3 mb-4 text-xs text-gray-300'>
+                  <span>
+                    Баталгаа нийтэлсэн тул шагнал, seed, сугалааны дүрмийг өөрчлөх
+                    боломжгүй.
+                  </span>
+                  {!drawStarted && (
+                    <Button variant='ghost' size='sm' onClick={onWithdrawCommitment}>
+                      Баталгааг цуцлах
+                    </Button>
+                  )}
+                </div>
+              )}
+              <DrawPlanSettingsForm
+                settings={drawPlanSettings}
+                locked={committed}
+                onChange={onDrawPlanChange}
+              />
+              {activeEvent && (
+                <DrawSeedForm
+                  seed={activeEvent.seed}
+                  seedPublished={activeEvent.seedPublished}
+                  locked={committed}
+                  revealed={!!activeEvent.seedRevealed}
+                  onChange={onSeedChange}
+                />
+              )}
+              <PrizeEditor
+                prizes={prizes}
+                participants={drawable}
+                winners={winners}
+                locked={committed}
+                onChange={onPrizesChange}
+              />
+            </>
+          )}
+        </div>
+      </section>
+
+      <aside className='flex-1 lg:max-w-[340px] flex flex-col overflow-hidden'>
+        <div className='bg-white/[0.04] backdrop-blur-xl rounded-[2rem] border border-white/10 p-5 flex flex-col h-full'>
+          <div className='flex items-center justify-between mb-4'>
+            <h3 className='font-bold text-sm'>Оролцогчид</h3>
+            <span className='text-[10px] text-gray-500 font-bold'>
+              {participants.length}
+              {excluded.size > 0 && <> &bull; {exclusions.length} хасагдсан</>}
+              {ticketCount !== participants.length && <> &bull; {ticketCount} тасалбар</>}
+            </span>
+          </div>
+          <div className='flex-1 overflow-y-auto pr-2 custom-scrollbar space-y-1'>
+            {participants.map((p, i) =>
+              excluded.has(p.memberNo) ? (
+                <div
+                  key={`${p.id}-${i}`}
+                  title={excluded.get(p.memberNo)?.reason}
+                  className='flex justify-between gap-2 text-xs font-mono bg-white/5 rounded-lg px-3 py-1.5 opacity-50'>
+                  <span className='truncate line-through'>{p.name}</span>
+                  <span className='text-red-300 shrink-0 truncate max-w-[45%]'>
+                    {excluded.get(p.memberNo)?.reason}
+                  </span>
+                </div>
+              ) : (
+                <div
+                  key={`${p.id}-${i}`}
+                  className='flex justify-between gap-2 text-xs font-mono bg-white/5 rounded-lg px-3 py-1.5'>
+                  <span className='truncate'>{p.name}</span>
+                  {/* Chance of taking the first draw */}
+                  <span className='text-gray-500 shrink-0'>
+                    {ticketsOf(p) > 1 && <>&times;{ticketsOf(p)} </>}
+                    {((ticketsOf(p) / ticketCount) * 100).toFixed(2)}%
+                  </span>
+                </div>
+              )
+            )}
+          </div>
+          <div className='pt-4 mt-4 border-t border-white/10 flex items-center justify-between gap-2'>
+            <span className='text-[9px] text-red-300 uppercase font-bold'>
+              {issues.length > 0
+                ? "Жагсаалтаа засна уу"
+                : prizes.length === 0 && "Шагнал нэмнэ үү"}
+            </span>
+            <Button
+              variant='primary'
+              size='sm'
+              onClick={onStart}
+              disabled={
+                participants.length === 0 || prizes.length === 0 || issues.length > 0
+              }>
+              Эхлүүлэх
+            </Button>
+          </div>
+        </div>
+      </aside>
+    </div>
+  )
+}
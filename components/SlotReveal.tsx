@@ -0,0 +1,66 @@
+import React, { useEffect, useState } from "react"
+import { Participant } from "../types"
+import { secureRandomInt } from "../services/drawEngine"
+
+// One reel per digit of the member number. The reels flicker, stop left to right, and
+// the name appears once the last digit lands.
+const IDLE_REELS = 4
+const TICK_MS = 70
+const START_DELAY_MS = 800
+const STOP_STEP_MS = 700
+const NAME_HOLD_MS = 1500
+
+export const slotDuration = (_names: string[], winner: Participant) =>
+  START_DELAY_MS + STOP_STEP_MS * winner.memberNo.length + NAME_HOLD_MS
+
+const randomDigit = () => String(secureRandomInt(10))
+
+export const SlotReveal: React.FC<{ names: string[]; winner: Participant | null }> = ({
+  winner,
+}) => {
+  const digits = winner ? winner.memberNo.split("") : Array(IDLE_REELS).fill("")
+  const [stopped, setStopped] = useState(0)
+  const [shown, setShown] = useState<string[]>(() => digits.map(randomDigit))
+
+  useEffect(() => {
+    setStopped(0)
+    if (!winner) return
+    const timers = digits.map((_, i) =>
+      setTimeout(() => setStopped(i + 1), START_DELAY_MS + STOP_STEP_MS * (i + 1))
+    )
+    return () => timers.forEach(clearTimeout)
+  }, [winner?.memberNo])
+
+  // Stopped reels keep their digit; the rest flicker until they stop
+  useEffect(() => {
+    if (stopped >= digits.length && winner) return
+    const timer = setInterval(() => setShown(digits.map(randomDigit)), TICK_MS)
+    return () => clearInterval(timer)
+  }, [stopped, digits.length, winner])
+
+  const done = !!winner && stopped >= digits.length
+
+  return (
+    <div className='w-full flex flex-col items-center gap-4 py-6 bg-black/40 rounded-3xl border border-white/5 shadow-inner'>
+      <div className='flex gap-2'>
+        {digits.map((digit, i) => (
+          <div
+            key={i}
+            className={`w-12 h-16 md:w-14 md:h-20 rounded-xl border flex items-center justify-center text-3xl md:text-4xl font-mono font-black transition-all duration-300 ${
+              i < stopped
+                ? "bg-blue-500/10 border-blue-500/50 text-white scale-105"
+                : "bg-black/40 border-white/10 text-gray-500"
+            }`}>
+            {i < stopped ? digit : (shown[i] ?? randomDigit())}
+          </div>
+        ))}
+      </div>
+      <div
+        className={`h-8 text-2xl font-black transition-opacity duration-500 ${
+          done ? "opacity-100" : "opacity-0"
+        }`}>
+        {winner?.displayName}
+      </div>
+    </div>
+  )
+}
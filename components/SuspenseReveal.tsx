@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from "react"
+import { Participant } from "../types"
+
+// Big-prize reveal the host steps through. Stage 0 is a drum roll; each advance then
+// shows a bit more: the member number digit by digit, the initial, the full name.
+// Between steps the drum roll holds until the host advances again.
+export const SUSPENSE_STEPS = 3
+// How long the full name stays up before the result is committed and the modal opens
+export const SUSPENSE_FINALE_MS = 2500
+const DIGIT_STEP_MS = 600
+
+const STEP_LABELS = ["Тусгай шагналын азтан", "Гишүүний дугаар", "Овгийн үсэг", "Азтан"]
+
+const DrumRoll: React.FC = () => (
+  <div className='flex items-center justify-center gap-2 text-[10px] uppercase tracking-[0.3em] font-bold text-blue-300 animate-pulse'>
+    <span className='text-2xl animate-bounce'>🥁</span>
+    Хүлээгээрэй
+  </div>
+)
+
+export const SuspenseReveal: React.FC<{ winner: Participant; stage: number }> = ({
+  winner,
+  stage,
+}) => {
+  const digits = winner.memberNo.split("")
+  const [shownDigits, setShownDigits] = useState(0)
+
+  useEffect(() => {
+    if (stage < 1) return setShownDigits(0)
+    if (stage > 1) return setShownDigits(digits.length)
+    const timers = digits.map((_, i) =>
+      setTimeout(() => setShownDigits(i + 1), DIGIT_STEP_MS * (i + 1))
+    )
+    return () => timers.forEach(clearTimeout)
+  }, [stage, winner.memberNo])
+
+  const stepDone = stage !== 1 || shownDigits >= digits.length
+  const initial = winner.initial || winner.surname.charAt(0)
+
+  return (
+    <div className='w-full flex flex-col items-center gap-5 py-6 bg-black/40 rounded-3xl border border-blue-500/20 shadow-inner'>
+      <div className='text-[10px] uppercase tracking-[0.3em] font-bold text-gray-400'>
+        {STEP_LABELS[Math.min(stage, SUSPENSE_STEPS)]}
+      </div>
+      <div className='flex gap-2'>
+        {digits.map((digit, i) => (
+          <div
+            key={i}
+            className={`w-11 h-14 md:w-12 md:h-16 rounded-xl border flex items-center justify-center text-3xl font-mono font-black transition-all duration-500 ${
+              i < shownDigits
+                ? "bg-blue-500/15 border-blue-500/60 text-white scale-105"
+                : "bg-black/40 border-white/10 text-gray-600"
+            }`}>
+            {i < shownDigits ? digit : "?"}
+          </div>
+        ))}
+      </div>
+      <div className='h-16 flex items-center justify-center'>
+        {stage === 2 && (
+          <div className='text-5xl font-black text-white animate-in zoom-in duration-500'>
+            {initial}.
+          </div>
+        )}
+        {stage >= SUSPENSE_STEPS && (
+          <div className='text-4xl md:text-5xl font-black text-[#4f83ff] drop-shadow-[0_10px_30px_rgba(29,88,244,0.5)] animate-in zoom-in duration-700'>
+            {winner.displayName}
+          </div>
+        )}
+      </div>
+      {stage < SUSPENSE_STEPS && stepDone && <DrumRoll />}
+    </div>
+  )
+}
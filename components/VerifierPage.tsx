@@ -0,0 +1,101 @@
+import React, { useState } from "react"
+import { Button } from "./Button"
+import { VerificationReport, verifyBundle } from "../services/fairness"
+
+const StatusRow: React.FC<{ ok: boolean; label: string; detail?: string }> = ({
+  ok,
+  label,
+  detail,
+}) => (
+  <div
+    className={`flex items-center justify-between gap-3 rounded-xl px-4 py-2 text-xs border ${
+      ok ? "bg-green-900/20 border-green-500/20" : "bg-red-900/30 border-red-500/30"
+    }`}>
+    <span className='font-bold'>{label}</span>
+    <span className={ok ? "text-green-300" : "text-red-300"}>
+      {detail || (ok ? "Зөв" : "Таарахгүй")}
+    </span>
+  </div>
+)
+
+// Standalone page (/#verify): anyone can paste the published data and replay the draw
+export const VerifierPage: React.FC = () => {
+  const [input, setInput] = useState("")
+  const [report, setReport] = useState<VerificationReport | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isChecking, setIsChecking] = useState(false)
+
+  const handleVerify = async () => {
+    setError(null)
+    setReport(null)
+    setIsChecking(true)
+    try {
+      setReport(await verifyBundle(JSON.parse(input)))
+    } catch (e) {
+      console.error("Verification error:", e)
+      setError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  return (
+    <div className='min-h-screen flex flex-col items-center p-4 text-white'>
+      <header className='text-center mb-6 mt-2 flex flex-col items-center'>
+        <img
+          src='/zuw logo main white.png'
+          alt='logo'
+          className='w-[140px] h-auto mb-2 object-contain'
+        />
+        <h1 className='text-3xl md:text-4xl font-black text-[#1d58f4] tracking-tighter uppercase'>
+          Сугалаа шалгах
+        </h1>
+      </header>
+
+      <main className='w-full max-w-3xl flex flex-col gap-4 bg-white/[0.03] backdrop-blur-md rounded-[2rem] border border-white/10 p-6'>
+        <p className='text-sm text-gray-300 font-light'>
+          Арга хэмжээний дараа нийтэлсэн JSON өгөгдлийг доор буулгана уу. Баталгаа,
+          оролцогчдын жагсаалт болон азтан бүрийг seed-ээс дахин тооцоолж шалгана.
+        </p>
+        <textarea
+          className='h-48 bg-black/40 border border-white/10 rounded-xl p-3 font-mono text-xs text-white custom-scrollbar'
+          value={input}
+          placeholder='{ "version": 2, ... }'
+          onChange={(e) => setInput(e.target.value)}
+        />
+        <div className='flex justify-end'>
+          <Button onClick={handleVerify} disabled={!input.trim() || isChecking} size='sm'>
+            Шалгах
+          </Button>
+        </div>
+
+        {error && (
+          <div className='bg-red-900/30 border border-red-500/30 text-red-200 text-xs rounded-xl p-3'>
+            {error}
+          </div>
+        )}
+
+        {report && (
+          <div className='flex flex-col gap-2'>
+            <StatusRow
+              ok={report.ok}
+              label='Дүгнэлт'
+              detail={report.ok ? "Бүх азтан зөв тодорсон" : "Зөрүү илэрсэн"}
+            />
+            <StatusRow ok={report.participantsOk} label='Оролцогчдын жагсаалт' />
+            <StatusRow ok={report.rulesOk} label='Шагнал, дүрэм' />
+            <StatusRow ok={report.commitmentOk} label='Баталгаа (seed)' />
+            {report.draws.map((draw) => (
+              <StatusRow
+                key={draw.drawIndex}
+                ok={draw.ok}
+                label={`#${draw.drawIndex + 1} ${draw.name}`}
+                detail={draw.ok ? undefined : `Хүлээгдэж буй: ${draw.expected || "—"}`}
+              />
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,95 @@
+import React, { useEffect, useMemo, useState } from "react"
+import { Participant } from "../types"
+import { revealField } from "../services/reveal"
+
+// A wheel of up to WHEEL_SLICES names spins several turns and stops with the winner's
+// slice under the pointer at the top
+const WHEEL_SLICES = 16
+const RADIUS = 100
+const TURNS = 6
+const START_DELAY_MS = 50
+const SPIN_MS = 6000
+const HOLD_MS = 800
+
+const SLICE_COLORS = ["#1d58f4", "#102a6b", "#3b6fff", "#0a1a45"]
+
+export const wheelDuration = () => START_DELAY_MS + SPIN_MS + HOLD_MS
+
+// Point on the rim `angle` degrees clockwise from the top
+const rimPoint = (angle: number) => {
+  const radians = (angle * Math.PI) / 180
+  return `${RADIUS * Math.sin(radians)} ${-RADIUS * Math.cos(radians)}`
+}
+
+const shortName = (name: string) => (name.length > 16 ? `${name.slice(0, 15)}…` : name)
+
+export const WheelReveal: React.FC<{ names: string[]; winner: Participant | null }> = ({
+  names,
+  winner,
+}) => {
+  const winnerName = winner?.name || null
+  const [rotation, setRotation] = useState(0)
+  const slices = useMemo(
+    () => revealField(names, winnerName, WHEEL_SLICES),
+    [names, winnerName]
+  )
+  const sliceAngle = 360 / Math.max(1, slices.length)
+
+  useEffect(() => {
+    setRotation(0)
+    if (!winnerName) return
+    const target = slices.indexOf(winnerName)
+    const timer = setTimeout(
+      () => setRotation(360 * TURNS - (target + 0.5) * sliceAngle),
+      START_DELAY_MS
+    )
+    return () => clearTimeout(timer)
+  }, [slices, winnerName, sliceAngle])
+
+  return (
+    <div className='relative w-full flex justify-center'>
+      <div className='absolute top-0 left-1/2 -translate-x-1/2 z-10 w-0 h-0 border-x-[12px] border-x-transparent border-t-[22px] border-t-white drop-shadow-lg' />
+      <svg
+        viewBox={`${-RADIUS} ${-RADIUS} ${RADIUS * 2} ${RADIUS * 2}`}
+        className='w-[280px] h-[280px] mt-2'
+        style={{
+          transform: `rotate(${rotation}deg)`,
+          transition: rotation
+            ? `transform ${SPIN_MS}ms cubic-bezier(0.15,0,0.05,1)`
+            : "none",
+        }}>
+        {slices.map((name, i) => {
+          const center = (i + 0.5) * sliceAngle
+          return (
+            <g key={`${name}-${i}`}>
+              {slices.length === 1 ? (
+                <circle r={RADIUS} fill={SLICE_COLORS[0]} />
+              ) : (
+                <path
+                  d={`M 0 0 L ${rimPoint(i * sliceAngle)} A ${RADIUS} ${RADIUS} 0 ${
+                    sliceAngle > 180 ? 1 : 0
+                  } 1 ${rimPoint((i + 1) * sliceAngle)} Z`}
+                  fill={SLICE_COLORS[i % SLICE_COLORS.length]}
+                  stroke='rgba(255,255,255,0.15)'
+                  strokeWidth={0.5}
+                />
+              )}
+              <text
+                transform={`rotate(${center - 90})`}
+                x={RADIUS - 6}
+                y={0}
+                textAnchor='end'
+                dominantBaseline='middle'
+                fill='#ffffff'
+                fontSize={slices.length > 10 ? 7 : 9}
+                fontFamily='monospace'>
+                {shortName(name)}
+              </text>
+            </g>
+          )
+        })}
+        <circle r={14} fill='#0a0c14' stroke='rgba(255,255,255,0.3)' />
+      </svg>
+    </div>
+  )
+}
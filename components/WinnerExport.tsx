@@ -0,0 +1,65 @@
+import React, { useState } from "react"
+import { LotteryEvent } from "../types"
+import { Button } from "./Button"
+import { downloadFile, downloadJson } from "../services/download"
+import { reportFileName, winnersReport, winnersToCsv } from "../services/winnerReport"
+import { buildCertificatesPdf } from "../services/certificates"
+import { prizeWinners } from "../services/prizes"
+
+// Report downloads for finance and compliance once the event is over
+export const WinnerExport: React.FC<{ event: LotteryEvent }> = ({ event }) => {
+  const [isBuilding, setIsBuilding] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleCertificates = async () => {
+    setError(null)
+    setIsBuilding(true)
+    try {
+      const pdf = await buildCertificatesPdf(event, prizeWinners(event.winners))
+      downloadFile(reportFileName(event, "pdf"), pdf, "application/pdf")
+    } catch (e) {
+      console.error("Certificate error:", e)
+      setError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setIsBuilding(false)
+    }
+  }
+
+  return (
+    <div className='flex flex-col items-center gap-2'>
+      <p className='text-gray-400 text-[9px] uppercase tracking-[0.2em] font-bold'>
+        Тайлан
+      </p>
+      <div className='flex flex-wrap justify-center gap-2'>
+        <Button
+          variant='ghost'
+          size='sm'
+          onClick={() =>
+            downloadFile(
+              reportFileName(event, "csv"),
+              winnersToCsv(event.winners),
+              "text/csv;charset=utf-8"
+            )
+          }>
+          CSV
+        </Button>
+        <Button
+          variant='ghost'
+          size='sm'
+          onClick={() =>
+            downloadJson(reportFileName(event, "json"), winnersReport(event))
+          }>
+          JSON
+        </Button>
+        <Button
+          variant='ghost'
+          size='sm'
+          onClick={handleCertificates}
+          disabled={isBuilding || event.winners.length === 0}>
+          {isBuilding ? "Үүсгэж байна..." : "Өргөмжлөл (PDF)"}
+        </Button>
+      </div>
+      {error && <p className='text-red-300 text-xs'>{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+import React from "react"
+import { Winner } from "../types"
+import { DEFAULT_CONGRATS_MESSAGE } from "../constants"
+import { Button } from "./Button"
+
+export const WinnerModal: React.FC<{
+  winner: Winner | null
+  // Both left out on the audience screen, where the console closes the modal
+  onClose?: () => void
+  onVoid?: () => void
+}> = ({ winner, onClose, onVoid }) => {
+  if (!winner) return null
+  return (
+    <div className='fixed inset-0 z-50 flex items-center justify-center p-4'>
+      <div
+        className='absolute inset-0 bg-black/95 backdrop-blur-xl animate-in fade-in duration-500'
+        onClick={onClose}
+      />
+      <div className='relative w-full max-w-md bg-gradient-to-b from-white/[0.1] to-transparent border border-white/20 p-8 rounded-[2rem] shadow-2xl flex flex-col items-center text-center animate-in zoom-in-95 fade-in duration-500'>
+        <div className='absolute -top-6 bg-[#1d58f4] p-3 rounded-xl shadow-xl rotate-3'>
+          <svg
+            xmlns='http://www.w3.org/2000/svg'
+            className='h-6 w-6 text-white'
+            fill='none'
+            viewBox='0 0 24 24'
+            stroke='currentColor'>
+            <path
+              strokeLinecap='round'
+              strokeLinejoin='round'
+              strokeWidth={2}
+              d='M5 3v4M3 5h4M6 17v4m-2-2h4m5-16l2.286 6.857L21 12l-5.714 2.143L13 21l-2.286-6.857L5 12l5.714-2.143L13 3z'
+            />
+          </svg>
+        </div>
+        <div className='text-[80px] mb-4 drop-shadow-[0_15px_30px_rgba(29,88,244,0.3)] animate-bounce'>
+          {winner.prize.icon}
+        </div>
+        <h2 className='text-4xl font-black text-white mb-2 tracking-tighter leading-tight'>
+          {winner.participant.name}
+        </h2>
+        <div className='mb-6'>
+          <p className='text-gray-400 text-[10px] uppercase tracking-[0.2em] mb-1 font-bold'>
+            Та дараах шагналын эзэн боллоо
+          </p>
+          <div className='text-2xl font-bold text-[#4f83ff]'>{winner.prize.name}</div>
+        </div>
+        <p className='text-base italic text-gray-200 font-light max-w-sm mb-8'>
+          "{winner.congratsMessage || DEFAULT_CONGRATS_MESSAGE}"
+        </p>
+        {onClose && (
+          <div className='flex gap-2'>
+            {onVoid && (
+              <Button onClick={onVoid} variant='ghost' size='sm'>
+                Ирээгүй, дахин сугалах
+              </Button>
+            )}
+            <Button onClick={onClose} variant='primary' size='sm'>
+              Хаах
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
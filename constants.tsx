@@ -1,4 +1,4 @@
-import { Prize } from "./types"
+import { DrawPlanSettings, Keymap, Prize, SoundSettings } from "./types"
 
 // Оролцогчдын нэрийг энд нэмнэ үү
 export const DEFAULT_PARTICIPANTS = [
@@ -973,7 +973,7 @@ export const DEFAULT_PARTICIPANTS = [
   "М.УУГАНЖАРГАЛ-14449",
 ]
 
-export const PRIZES: Prize[] = [
+export const DEFAULT_PRIZES: Prize[] = [
   {
     id: 3,
     rank: 3,
@@ -981,9 +981,44 @@ export const PRIZES: Prize[] = [
     value: "Апп ваучер",
     icon: "💳",
     isBigWinner: true,
+    quantity: 1,
   },
 ]
 
+export const DEFAULT_DRAW_PLAN: DrawPlanSettings = {
+  order: "smallestFirst",
+  allowAdHoc: false,
+  repeatPolicy: "once",
+  revealStyle: "roller",
+}
+
+export const DEFAULT_SOUND: SoundSettings = {
+  volume: 0.8,
+  muted: false,
+}
+
+// Clickers send PageDown/PageUp for next/previous and B or "." for the blank-screen button
+export const DEFAULT_KEYMAP: Keymap = {
+  advance: ["PageDown", " ", "ArrowRight"],
+  back: ["PageUp", "ArrowLeft"],
+  redraw: ["r"],
+  blackout: ["b", "."],
+  fullscreen: ["f"],
+  help: ["?", "h"],
+}
+
+export const DEFAULT_EVENT_NAME = "Азтан тодруулах"
+
+// Location hash that opens the public draw verifier instead of the app
+export const VERIFIER_HASH = "#verify"
+// Opens the projected audience screen, driven by the console over BroadcastChannel
+export const AUDIENCE_HASH = "#audience"
+
+// Pre-IndexedDB storage keys, only read to migrate old state
 export const APP_STORAGE_KEY = "lottery_winners_state_v3"
+export const PARTICIPANTS_STORAGE_KEY = "lottery_participants_v1"
+export const PARTICIPANT_REVIEW_STORAGE_KEY = "lottery_participant_review_v1"
+export const PRIZES_STORAGE_KEY = "lottery_prizes_v1"
+export const DRAW_PLAN_STORAGE_KEY = "lottery_draw_plan_v1"
 export const DEFAULT_CONGRATS_MESSAGE =
   "Баяр хүргэе! Та Зөв хуримтлалын сангийн азтан боллоо. 🎊✨"
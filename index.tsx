@@ -1,6 +1,9 @@
 import React from "react"
 import ReactDOM from "react-dom/client"
 import App from "./App"
+import { VerifierPage } from "./components/VerifierPage"
+import { AudienceView } from "./components/AudienceView"
+import { AUDIENCE_HASH, VERIFIER_HASH } from "./constants"
 import "./index.css"
 
 const rootElement = document.getElementById("root")
@@ -11,6 +14,12 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement)
 root.render(
   <React.StrictMode>
-    <App />
+    {window.location.hash === VERIFIER_HASH ? (
+      <VerifierPage />
+    ) : window.location.hash === AUDIENCE_HASH ? (
+      <AudienceView />
+    ) : (
+      <App />
+    )}
   </React.StrictMode>
 )
@@ -0,0 +1,209 @@
+// Phone remote for the host, run next to the dev server with `npm run remote`.
+//
+// The app on the laptop connects from localhost as the console, using the console
+// token this server prints at launch, and is given a pairing code. A phone opens
+// http://<laptop address>:3001, enters the code and from then on its commands are
+// relayed to the console, and the console's status is relayed back to every paired
+// phone. The server keeps no draw state of its own.
+import { createServer } from "node:http"
+import { readFileSync } from "node:fs"
+import { networkInterfaces } from "node:os"
+import { randomBytes, randomInt, timingSafeEqual } from "node:crypto"
+import { WebSocketServer } from "ws"
+
+const PORT = Number(process.env.REMOTE_PORT) || 3001
+const COMMANDS = ["draw", "close", "redraw", "next"]
+// Wrong codes allowed from one address before it is locked out. Until then each wrong
+// code doubles the wait before that address may try again, starting from BACKOFF_MS.
+const MAX_PAIR_ATTEMPTS = 5
+const BACKOFF_MS = 1000
+const LOCKOUT_MS = 15 * 60 * 1000
+// Wrong codes from all addresses together before the code is replaced
+const ROTATE_AFTER = 20
+// Pages allowed to act as the console: the dev server, comma separated to override
+const APP_ORIGINS = (
+  process.env.REMOTE_APP_ORIGIN || "http://localhost:3000,http://127.0.0.1:3000"
+).split(",")
+// New every launch, so a page that merely reaches localhost can't become the console
+const consoleToken = randomBytes(12).toString("base64url")
+
+const remotePage = readFileSync(new URL("./remote.html", import.meta.url))
+const newPairingCode = () => String(randomInt(0, 1000000)).padStart(6, "0")
+let pairingCode = process.env.REMOTE_CODE || newPairingCode()
+
+let host = null
+let lastStatus = null
+const remotes = new Set()
+// Wrong codes per address, kept across connections so reconnecting doesn't reset them
+const pairFailures = new Map()
+let failuresSinceRotation = 0
+
+const send = (socket, message) => {
+  if (socket && socket.readyState === socket.OPEN) socket.send(JSON.stringify(message))
+}
+
+const parse = (data) => {
+  try {
+    return JSON.parse(String(data))
+  } catch {
+    return null
+  }
+}
+
+const isLoopback = (address = "") =>
+  address === "127.0.0.1" || address === "::1" || address === "::ffff:127.0.0.1"
+
+const isConsoleToken = (token = "") => {
+  const given = Buffer.from(token)
+  const expected = Buffer.from(consoleToken)
+  return given.length === expected.length && timingSafeEqual(given, expected)
+}
+
+// Addresses a phone on the same network can reach
+const lanUrls = () =>
+  Object.values(networkInterfaces())
+    .flat()
+    .filter((a) => a && a.family === "IPv4" && !a.internal)
+    .map((a) => `http://${a.address}:${PORT}`)
+
+const notifyHost = () => send(host, { type: "remotes", count: remotes.size })
+
+const broadcastStatus = () =>
+  remotes.forEach((remote) => send(remote, { type: "status", status: lastStatus }))
+
+const sendSession = () =>
+  send(host, {
+    type: "session",
+    code: pairingCode,
+    urls: lanUrls(),
+    remotes: remotes.size,
+  })
+
+// Phones already paired stay paired; new ones need the code the console now shows
+const rotatePairingCode = () => {
+  pairingCode = newPairingCode()
+  failuresSinceRotation = 0
+  console.log(`Too many wrong codes, new pairing code: ${pairingCode}`)
+  sendSession()
+}
+
+// An address starts over once its lockout has run out, or when its last wrong code
+// is as old as a lockout
+const prunePairFailures = () => {
+  const now = Date.now()
+  pairFailures.forEach((failure, address) => {
+    if (now < failure.until) return
+    if (failure.count >= MAX_PAIR_ATTEMPTS || now - failure.at >= LOCKOUT_MS) {
+      pairFailures.delete(address)
+    }
+  })
+}
+
+// Milliseconds until the address may try a code again, 0 if it may now
+const pairWait = (address) => {
+  const failure = pairFailures.get(address)
+  return failure ? Math.max(0, failure.until - Date.now()) : 0
+}
+
+const recordPairFailure = (address) => {
+  const count = (pairFailures.get(address)?.count || 0) + 1
+  const wait = count >= MAX_PAIR_ATTEMPTS ? LOCKOUT_MS : BACKOFF_MS * 2 ** (count - 1)
+  const now = Date.now()
+  pairFailures.set(address, { count, at: now, until: now + wait })
+  failuresSinceRotation += 1
+  if (failuresSinceRotation >= ROTATE_AFTER) rotatePairingCode()
+  return count
+}
+
+const acceptConsole = (socket) => {
+  if (host) host.close(4000, "replaced")
+  host = socket
+  sendSession()
+  socket.on("message", (data) => {
+    const message = parse(data)
+    if (message?.type !== "status") return
+    lastStatus = message.status
+    broadcastStatus()
+  })
+  socket.on("close", () => {
+    if (host !== socket) return
+    host = null
+    lastStatus = null
+    broadcastStatus()
+  })
+}
+
+const acceptRemote = (socket, address) => {
+  let paired = false
+  socket.on("message", (data) => {
+    const message = parse(data)
+    if (!message) return
+    if (!paired) {
+      if (message.type !== "pair") return
+      prunePairFailures()
+      // While the address waits, its codes aren't even compared
+      const wait = pairWait(address)
+      if (wait > 0) {
+        send(socket, { type: "paired", ok: false, retryAfter: Math.ceil(wait / 1000) })
+        return
+      }
+      if (message.code !== pairingCode) {
+        const count = recordPairFailure(address)
+        send(socket, {
+          type: "paired",
+          ok: false,
+          retryAfter: Math.ceil(pairWait(address) / 1000),
+        })
+        if (count >= MAX_PAIR_ATTEMPTS) socket.close(4001, "too many attempts")
+        return
+      }
+      pairFailures.delete(address)
+      paired = true
+      remotes.add(socket)
+      send(socket, { type: "paired", ok: true })
+      send(socket, { type: "status", status: lastStatus })
+      notifyHost()
+      return
+    }
+    if (message.type === "command" && COMMANDS.includes(message.command)) {
+      send(host, { type: "command", command: message.command })
+    }
+  })
+  socket.on("close", () => {
+    if (remotes.delete(socket)) notifyHost()
+  })
+}
+
+const server = createServer((req, res) => {
+  const { pathname } = new URL(req.url, "http://localhost")
+  if (req.method !== "GET" || pathname !== "/") {
+    res.writeHead(404)
+    res.end()
+    return
+  }
+  res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" })
+  res.end(remotePage)
+})
+
+new WebSocketServer({ server }).on("connection", (socket, req) => {
+  const params = new URL(req.url, "http://localhost").searchParams
+  if (params.get("role") !== "console") {
+    return acceptRemote(socket, req.socket.remoteAddress)
+  }
+  // Only the app, open on the laptop itself and given this launch's token, may act as
+  // the console
+  if (
+    !isLoopback(req.socket.remoteAddress) ||
+    !APP_ORIGINS.includes(req.headers.origin) ||
+    !isConsoleToken(params.get("token") || "")
+  ) {
+    return socket.close(4003, "not the console")
+  }
+  acceptConsole(socket)
+})
+
+server.listen(PORT, () => {
+  console.log(`Remote server: ${lanUrls().join(", ") || `http://localhost:${PORT}`}`)
+  console.log(`Console token: ${consoleToken}`)
+  console.log(`Pairing code: ${pairingCode}`)
+})
@@ -0,0 +1,89 @@
+import { LotteryEvent } from "../types"
+import { SCHEMA_VERSION, migrateState } from "./storage"
+import { sha256Hex } from "./drawEngine"
+import { checkLog } from "./eventLog"
+import { drawnWinners } from "./events"
+
+// One event, everything included (participants, prizes, winners, seed, log), as a
+// file that can be carried to another machine. `schemaVersion` is the storage schema
+// the event was written with, checked the same way as the stored state.
+const BACKUP_FORMAT = "zuv-lottery-event"
+export const BACKUP_VERSION = 1
+
+export interface EventBackup {
+  format: typeof BACKUP_FORMAT
+  version: number
+  schemaVersion: number
+  exportedAt: string
+  // SHA-256 of the serialized event, catches truncated or hand-edited files
+  checksum: string
+  event: LotteryEvent
+}
+
+const eventChecksum = (event: LotteryEvent) => sha256Hex(JSON.stringify(event))
+
+export const createBackup = async (event: LotteryEvent): Promise<EventBackup> => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  schemaVersion: SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  checksum: await eventChecksum(event),
+  event,
+})
+
+export const backupFileName = (event: LotteryEvent) =>
+  `event-${event.date}-${event.id}.json`
+
+// Every drawn or pending winner has to be someone on the event's own list
+const findUnknownWinners = (event: LotteryEvent) => {
+  const known = new Set(event.participants.map((p) => `${p.memberNo}|${p.name}`))
+  return drawnWinners(event).filter(
+    (w) => !known.has(`${w.participant.memberNo}|${w.participant.name}`)
+  )
+}
+
+export const readBackup = async (text: string): Promise<LotteryEvent> => {
+  let backup: EventBackup
+  try {
+    backup = JSON.parse(text)
+  } catch (e) {
+    console.error("Backup parse error:", e)
+    throw new Error("Файл JSON биш байна")
+  }
+  if (
+    backup?.format !== BACKUP_FORMAT ||
+    !backup.event ||
+    typeof backup.schemaVersion !== "number"
+  ) {
+    throw new Error("Энэ файл арга хэмжээний нөөц биш байна")
+  }
+  if (backup.version > BACKUP_VERSION) {
+    throw new Error(
+      `Нөөц шинэ хувилбарынх байна (v${backup.version}). Аппаа шинэчилнэ үү.`
+    )
+  }
+  if ((await eventChecksum(backup.event)) !== backup.checksum) {
+    throw new Error("Нөөц файл гэмтсэн эсвэл гараар өөрчлөгдсөн байна")
+  }
+
+  const { events } = await migrateState({
+    schemaVersion: backup.schemaVersion,
+    activeEventId: backup.event.id,
+    events: [backup.event],
+  })
+  const event = events[0]
+
+  const unknown = findUnknownWinners(event)
+  if (unknown.length > 0) {
+    throw new Error(
+      `Азтан оролцогчдын жагсаалтад алга: ${unknown
+        .map((w) => w.participant.name)
+        .join(", ")}`
+    )
+  }
+  const check = await checkLog(event.log, drawnWinners(event))
+  if (!check.ok) {
+    throw new Error(`Азтнуудын бүртгэл таарахгүй байна: ${check.problems.join("; ")}`)
+  }
+  return event
+}
@@ -0,0 +1,35 @@
+import confetti from "canvas-confetti"
+
+const CONFETTI_COLORS = ["#1d58f4", "#ffffff", "#4f83ff"]
+
+// Side cannons for four seconds for a big prize, one burst otherwise
+export const triggerCelebration = (isBigWinner: boolean) => {
+  if (isBigWinner) {
+    const end = Date.now() + 4000
+    const frame = () => {
+      confetti({
+        particleCount: 3,
+        angle: 60,
+        spread: 55,
+        origin: { x: 0 },
+        colors: CONFETTI_COLORS,
+      })
+      confetti({
+        particleCount: 3,
+        angle: 120,
+        spread: 55,
+        origin: { x: 1 },
+        colors: CONFETTI_COLORS,
+      })
+      if (Date.now() < end) requestAnimationFrame(frame)
+    }
+    frame()
+  } else {
+    confetti({
+      particleCount: 150,
+      spread: 70,
+      origin: { y: 0.6 },
+      colors: CONFETTI_COLORS,
+    })
+  }
+}
@@ -0,0 +1,134 @@
+import { jsPDF } from "jspdf"
+import { LotteryEvent, Winner } from "../types"
+import { DEFAULT_CONGRATS_MESSAGE } from "../constants"
+
+// A4 landscape, in millimetres for jsPDF and in pixels for the canvas it is drawn on.
+// jsPDF's built-in fonts have no Cyrillic, so each page is drawn with the browser's
+// fonts and embedded as an image.
+const PAGE_WIDTH_MM = 297
+const PAGE_HEIGHT_MM = 210
+const PX_PER_MM = 6
+const WIDTH = PAGE_WIDTH_MM * PX_PER_MM
+const HEIGHT = PAGE_HEIGHT_MM * PX_PER_MM
+
+const LOGO_SRC = "/zuw logo main.png"
+const FONT = "Montserrat, sans-serif"
+const BRAND_BLUE = "#1d58f4"
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => resolve(image)
+    image.onerror = () => reject(new Error(`Зураг ачаалж чадсангүй: ${src}`))
+    image.src = src
+  })
+
+// Splits `text` into lines no wider than `maxWidth` with the context's current font
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+  const lines: string[] = []
+  let line = ""
+  for (const word of text.split(/\s+/)) {
+    const next = line ? `${line} ${word}` : word
+    if (line && ctx.measureText(next).width > maxWidth) {
+      lines.push(line)
+      line = word
+    } else {
+      line = next
+    }
+  }
+  if (line) lines.push(line)
+  return lines
+}
+
+const drawCertificate = (
+  ctx: CanvasRenderingContext2D,
+  logo: HTMLImageElement,
+  event: LotteryEvent,
+  winner: Winner
+) => {
+  ctx.fillStyle = "#ffffff"
+  ctx.fillRect(0, 0, WIDTH, HEIGHT)
+  ctx.strokeStyle = BRAND_BLUE
+  ctx.lineWidth = 12
+  ctx.strokeRect(60, 60, WIDTH - 120, HEIGHT - 120)
+  ctx.lineWidth = 3
+  ctx.strokeRect(84, 84, WIDTH - 168, HEIGHT - 168)
+
+  const logoWidth = 360
+  const logoHeight = (logo.height / logo.width) * logoWidth
+  ctx.drawImage(logo, (WIDTH - logoWidth) / 2, 150, logoWidth, logoHeight)
+
+  const center = WIDTH / 2
+  let y = 190 + logoHeight
+  ctx.textAlign = "center"
+  ctx.textBaseline = "alphabetic"
+
+  ctx.fillStyle = BRAND_BLUE
+  ctx.font = `800 84px ${FONT}`
+  ctx.fillText("ӨРГӨМЖЛӨЛ", center, (y += 90))
+
+  ctx.fillStyle = "#6b7280"
+  ctx.font = `600 30px ${FONT}`
+  ctx.fillText(event.name.toUpperCase(), center, (y += 60))
+
+  ctx.fillStyle = "#111827"
+  ctx.font = `800 96px ${FONT}`
+  ctx.fillText(winner.participant.name, center, (y += 150))
+
+  ctx.fillStyle = "#6b7280"
+  ctx.font = `600 28px ${FONT}`
+  ctx.fillText("Та дараах шагналын эзэн боллоо", center, (y += 80))
+
+  ctx.fillStyle = BRAND_BLUE
+  ctx.font = `700 56px ${FONT}`
+  ctx.fillText(winner.prize.name, center, (y += 75))
+
+  ctx.fillStyle = "#374151"
+  ctx.font = `italic 300 32px ${FONT}`
+  y += 30
+  for (const line of wrapText(
+    ctx,
+    `"${winner.congratsMessage || DEFAULT_CONGRATS_MESSAGE}"`,
+    WIDTH - 500
+  )) {
+    ctx.fillText(line, center, (y += 46))
+  }
+
+  ctx.fillStyle = "#9ca3af"
+  ctx.font = `600 22px ${FONT}`
+  ctx.fillText(
+    `Зөв хуримтлалын сан • ${new Date(winner.drawnAt).toLocaleDateString("mn-MN")} • №${
+      winner.participant.memberNo
+    }`,
+    center,
+    HEIGHT - 130
+  )
+}
+
+// One certificate page per winner, in draw order
+export const buildCertificatesPdf = async (event: LotteryEvent, winners: Winner[]) => {
+  if (winners.length === 0) throw new Error("Өргөмжлөл үүсгэх азтан алга")
+  const logo = await loadImage(LOGO_SRC)
+  await document.fonts.ready
+
+  const canvas = document.createElement("canvas")
+  canvas.width = WIDTH
+  canvas.height = HEIGHT
+  const ctx = canvas.getContext("2d")
+  if (!ctx) throw new Error("Canvas дэмжигдэхгүй байна")
+
+  const pdf = new jsPDF({ orientation: "landscape", unit: "mm", format: "a4" })
+  winners.forEach((winner, i) => {
+    if (i > 0) pdf.addPage()
+    drawCertificate(ctx, logo, event, winner)
+    pdf.addImage(
+      canvas.toDataURL("image/jpeg", 0.92),
+      "JPEG",
+      0,
+      0,
+      PAGE_WIDTH_MM,
+      PAGE_HEIGHT_MM
+    )
+  })
+  return pdf.output("blob")
+}
@@ -0,0 +1,12 @@
+// Saves generated content as a file through a temporary object URL
+export const downloadFile = (fileName: string, content: BlobPart, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+export const downloadJson = (fileName: string, data: unknown) =>
+  downloadFile(fileName, JSON.stringify(data, null, 2), "application/json")
@@ -0,0 +1,200 @@
+import { DrawAudit, Participant, Prize, RepeatWinnerPolicy, Winner } from "../types"
+import { ticketsOf, totalTickets } from "./participants"
+import { eligibleForPrize } from "./eligibility"
+
+const UINT32_RANGE = 2 ** 32
+const SEED_BYTES = 32
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("")
+
+export const sha256Hex = async (text: string) => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text))
+  return toHex(new Uint8Array(digest))
+}
+
+// Fresh secret for an event that has no published seed
+export const generateSeed = () =>
+  toHex(crypto.getRandomValues(new Uint8Array(SEED_BYTES)))
+
+// A range past 2^32 leaves no acceptable value and the rejection loop would never end
+const checkRange = (max: number) => {
+  if (!Number.isInteger(max) || max < 1 || max >= UINT32_RANGE) {
+    throw new RangeError(`Random range out of bounds: ${max}`)
+  }
+}
+
+// Maps uniform 32-bit values onto [0, max) without modulo bias: values at or above
+// the largest multiple of `max` are rejected and the next one is tried.
+const sampleBelow = (max: number, next: () => number) => {
+  checkRange(max)
+  const limit = Math.floor(UINT32_RANGE / max) * max
+  for (;;) {
+    const value = next()
+    if (value < limit) return value % max
+  }
+}
+
+// Cosmetic randomness (roller order and the like), straight from the OS CSPRNG
+export const secureRandomInt = (max: number) =>
+  sampleBelow(max, () => crypto.getRandomValues(new Uint32Array(1))[0])
+
+export const secureShuffle = <T>(items: T[]): T[] => {
+  const result = [...items]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = secureRandomInt(i + 1)
+    ;[result[i], result[j]] = [result[j], result[i]]
+  }
+  return result
+}
+
+// Deterministic stream for draw `drawIndex`: SHA-256("seed:drawIndex:block") read as
+// big-endian uint32 words, rejection-sampled like above. Anyone holding the seed can
+// regenerate it; `output` lists every word consumed, rejected ones included.
+export const seededRandomInt = async (seed: string, drawIndex: number, max: number) => {
+  checkRange(max)
+  const limit = Math.floor(UINT32_RANGE / max) * max
+  const output: number[] = []
+  for (let block = 0; ; block++) {
+    const hex = await sha256Hex(`${seed}:${drawIndex}:${block}`)
+    for (let i = 0; i < 8; i++) {
+      const word = parseInt(hex.slice(i * 8, i * 8 + 8), 16)
+      output.push(word)
+      if (word < limit) return { value: word % max, output }
+    }
+  }
+}
+
+// Draw order is by member number, so an auditor's copy of the list may be sorted
+// any way and still reproduce the same picks.
+export const orderForDraw = (participants: Participant[]) =>
+  [...participants].sort(
+    (a, b) =>
+      Number(a.memberNo) - Number(b.memberNo) || a.name.localeCompare(b.name, "mn")
+  )
+
+// Whether an earlier result keeps its winner out of the draw for `prize`. No policy
+// allows the same prize twice, so a batch never names anyone twice. Voided results
+// count too: a no-show is not drawn again for the same prize.
+const blocksRepeat = (winner: Winner, prize: Prize, policy: RepeatWinnerPolicy) => {
+  if (policy === "once") return true
+  if (winner.prize.id === prize.id) return true
+  return policy === "oneBigPrize" && prize.isBigWinner && winner.prize.isBigWinner
+}
+
+export const eligibleParticipants = (
+  participants: Participant[],
+  winners: Winner[],
+  prize: Prize,
+  policy: RepeatWinnerPolicy
+) => {
+  const blockedIds = new Set(
+    winners.filter((w) => blocksRepeat(w, prize, policy)).map((w) => w.participant.id)
+  )
+  return orderForDraw(participants.filter((p) => !blockedIds.has(p.id)))
+}
+
+// Lays the tickets out in draw order and finds who holds ticket `ticket`
+const ticketHolder = (eligible: Participant[], ticket: number) => {
+  let end = 0
+  for (const participant of eligible) {
+    end += ticketsOf(participant)
+    if (ticket < end) return participant
+  }
+  return eligible[eligible.length - 1]
+}
+
+// Draws for `prize` from the participants its rules allow; the draw index counts every
+// draw in the event, whatever the prize
+export const pickWinner = async (
+  participants: Participant[],
+  winners: Winner[],
+  seed: string,
+  prize: Prize,
+  policy: RepeatWinnerPolicy
+): Promise<{ participant: Participant; audit: DrawAudit } | null> => {
+  const eligible = eligibleParticipants(
+    eligibleForPrize(participants, prize),
+    winners,
+    prize,
+    policy
+  )
+  if (eligible.length === 0) return null
+  const drawIndex = winners.length
+  const ticketCount = totalTickets(eligible)
+  if (ticketCount >= UINT32_RANGE) {
+    throw new Error(`Нийт тасалбарын тоо хэт их байна (${ticketCount})`)
+  }
+  const { value, output } = await seededRandomInt(seed, drawIndex, ticketCount)
+  const participant = ticketHolder(eligible, value)
+  return {
+    participant,
+    audit: {
+      seed,
+      drawIndex,
+      eligibleCount: eligible.length,
+      pickedIndex: value,
+      tickets: ticketsOf(participant),
+      totalTickets: ticketCount,
+      rngOutput: output,
+    },
+  }
+}
+
+// A batch is a run of single draws, each seeing the ones before it, so every winner
+// replays exactly like a draw made on its own. Stops early if the pool runs out.
+export const pickWinners = async (
+  participants: Participant[],
+  winners: Winner[],
+  seed: string,
+  prize: Prize,
+  policy: RepeatWinnerPolicy,
+  count: number,
+  toWinner: (participant: Participant, audit: DrawAudit) => Winner
+): Promise<Winner[]> => {
+  const picked: Winner[] = []
+  for (let i = 0; i < count; i++) {
+    const result = await pickWinner(
+      participants,
+      [...winners, ...picked],
+      seed,
+      prize,
+      policy
+    )
+    if (!result) break
+    picked.push(toWinner(result.participant, result.audit))
+  }
+  return picked
+}
+
+export interface DrawCheck {
+  winner: Winner
+  expected: Participant | null
+  ok: boolean
+}
+
+// Re-runs every draw from the participant list and seed and compares the picks
+export const verifyWinners = async (
+  participants: Participant[],
+  winners: Winner[],
+  seed: string,
+  policy: RepeatWinnerPolicy
+): Promise<DrawCheck[]> => {
+  const checks: DrawCheck[] = []
+  for (let i = 0; i < winners.length; i++) {
+    const result = await pickWinner(
+      participants,
+      winners.slice(0, i),
+      seed,
+      winners[i].prize,
+      policy
+    )
+    const expected = result?.participant || null
+    checks.push({
+      winner: winners[i],
+      expected,
+      ok: expected?.id === winners[i].participant.id,
+    })
+  }
+  return checks
+}
@@ -0,0 +1,97 @@
+import {
+  DrawOrder,
+  Participant,
+  Prize,
+  PrizeTier,
+  RepeatWinnerPolicy,
+  Winner,
+} from "../types"
+import { unitsLeft } from "./prizes"
+import { eligibleForPrize } from "./eligibility"
+import { eligibleParticipants } from "./drawEngine"
+
+export interface PlannedPrize {
+  prize: Prize
+  tier: PrizeTier
+  remaining: number
+}
+
+export const TIER_LABELS: Record<PrizeTier, string> = {
+  grand: "Их шагнал",
+  special: "Тусгай шагнал",
+  regular: "Энгийн шагнал",
+}
+
+export const ORDER_LABELS: Record<DrawOrder, string> = {
+  smallestFirst: "Жижгээс нь эхлэх",
+  grandFirst: "Их шагналаас эхлэх",
+}
+
+export const REPEAT_POLICY_LABELS: Record<RepeatWinnerPolicy, string> = {
+  once: "Нэг хүн нэг л шагнал",
+  differentPrizes: "Өөр өөр шагнал давтан авч болно",
+  oneBigPrize: "Их шагнал нэг л удаа, бусдыг давтан",
+}
+
+// Why nobody can be drawn for `prize`, given that its pool came out empty
+export const emptyPoolReason = (
+  participants: Participant[],
+  prize: Prize,
+  policy: RepeatWinnerPolicy
+) => {
+  if (participants.length === 0) return "Оролцогчийн жагсаалт хоосон байна"
+  if (eligibleForPrize(participants, prize).length === 0) {
+    return "Энэ шагналын нөхцөлд тохирох оролцогч алга"
+  }
+  if (policy === "once") {
+    return "Тохирох бүх оролцогч аль хэдийн шагнал авсан (нэг хүн нэг л шагнал)"
+  }
+  if (policy === "oneBigPrize" && prize.isBigWinner) {
+    return "Тохирох бүх оролцогч их шагнал эсвэл энэ шагналыг аль хэдийн авсан"
+  }
+  return "Тохирох бүх оролцогч энэ шагналыг аль хэдийн авсан"
+}
+
+// Splits the plan into prizes someone can still be drawn for and prizes skipped because
+// their pool is empty. The event is finished once nothing drawable is left.
+export const splitDrawablePlan = (
+  plan: PlannedPrize[],
+  participants: Participant[],
+  winners: Winner[],
+  policy: RepeatWinnerPolicy
+) => {
+  const drawable: PlannedPrize[] = []
+  const skipped: PlannedPrize[] = []
+  for (const entry of plan) {
+    const pool = eligibleParticipants(
+      eligibleForPrize(participants, entry.prize),
+      winners,
+      entry.prize,
+      policy
+    )
+    if (pool.length > 0) drawable.push(entry)
+    else skipped.push(entry)
+  }
+  return { drawable, skipped }
+}
+
+// Rank 1 is the grand prize, rank 2 the special prizes, everything else regular
+export const prizeTier = (prize: Prize): PrizeTier =>
+  prize.rank <= 1 ? "grand" : prize.rank === 2 ? "special" : "regular"
+
+// Prizes still to be drawn, in draw order. Equal ranks keep the prize editor order.
+export const buildDrawPlan = (
+  prizes: Prize[],
+  winners: Winner[],
+  order: DrawOrder
+): PlannedPrize[] =>
+  prizes
+    .map((prize) => ({
+      prize,
+      tier: prizeTier(prize),
+      remaining: unitsLeft(prize, winners),
+    }))
+    .filter((entry) => entry.remaining > 0)
+    .sort((a, b) =>
+      order === "grandFirst" ? a.prize.rank - b.prize.rank : b.prize.rank - a.prize.rank
+    )
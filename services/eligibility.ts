@@ -0,0 +1,84 @@
+import { MemberNoRange, Participant, Prize, PrizeEligibility } from "../types"
+
+// Prize rules: a participant can win the prize when they are in its pool (if set),
+// carry at least one included tag (if any), carry no excluded tag and fall in one of
+// the member-number ranges (if any). A prize without rules is open to everyone.
+
+export const normalizeTag = (tag: string) => tag.trim().toLocaleLowerCase("mn")
+
+export const parseTagList = (text: string) =>
+  Array.from(new Set(text.split(/[,;|]/).map(normalizeTag).filter(Boolean)))
+
+export const formatTagList = (tags: string[]) => tags.join(", ")
+
+// "1000-1999, 5000" -> [{ from: 1000, to: 1999 }, { from: 5000, to: 5000 }]
+export const parseMemberNoRanges = (text: string) => {
+  const ranges: MemberNoRange[] = []
+  const invalid: string[] = []
+  text
+    .split(/[,;]/)
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .forEach((part) => {
+      const match = part.match(/^(\d+)\s*(?:[-–]\s*(\d+))?$/)
+      if (!match) return invalid.push(part)
+      const from = Number(match[1])
+      const to = match[2] ? Number(match[2]) : from
+      ranges.push({ from: Math.min(from, to), to: Math.max(from, to) })
+    })
+  return { ranges, invalid }
+}
+
+export const formatMemberNoRanges = (ranges: MemberNoRange[]) =>
+  ranges.map((r) => (r.from === r.to ? `${r.from}` : `${r.from}-${r.to}`)).join(", ")
+
+export const hasEligibilityRules = (rules?: PrizeEligibility | null) =>
+  !!rules &&
+  (rules.includeTags.length > 0 ||
+    rules.excludeTags.length > 0 ||
+    rules.memberNoRanges.length > 0 ||
+    !!rules.pool)
+
+export const matchesEligibility = (
+  participant: Participant,
+  rules?: PrizeEligibility | null
+) => {
+  if (!hasEligibilityRules(rules)) return true
+  const tags = participant.tags || []
+  const memberNo = Number(participant.memberNo)
+  return (
+    (!rules.pool || participant.pool === rules.pool) &&
+    (rules.includeTags.length === 0 || rules.includeTags.some((t) => tags.includes(t))) &&
+    !rules.excludeTags.some((t) => tags.includes(t)) &&
+    (rules.memberNoRanges.length === 0 ||
+      rules.memberNoRanges.some((r) => memberNo >= r.from && memberNo <= r.to))
+  )
+}
+
+export const eligibleForPrize = (participants: Participant[], prize?: Prize | null) =>
+  prize?.eligibility
+    ? participants.filter((p) => matchesEligibility(p, prize.eligibility))
+    : participants
+
+// Short Mongolian summary for the prize editor and the draw plan
+export const describeEligibility = (rules?: PrizeEligibility | null) => {
+  if (!hasEligibilityRules(rules)) return "Бүх оролцогч"
+  const parts: string[] = []
+  if (rules.pool) parts.push(`Сан: ${rules.pool}`)
+  if (rules.includeTags.length) parts.push(`Зөвхөн: ${formatTagList(rules.includeTags)}`)
+  if (rules.excludeTags.length) parts.push(`Хасах: ${formatTagList(rules.excludeTags)}`)
+  if (rules.memberNoRanges.length) {
+    parts.push(`Дугаар: ${formatMemberNoRanges(rules.memberNoRanges)}`)
+  }
+  return parts.join(" • ")
+}
+
+export const participantPools = (participants: Participant[]) =>
+  Array.from(
+    new Set(participants.map((p) => p.pool).filter((pool): pool is string => !!pool))
+  ).sort((a, b) => a.localeCompare(b, "mn"))
+
+export const participantTags = (participants: Participant[]) =>
+  Array.from(new Set(participants.flatMap((p) => p.tags || []))).sort((a, b) =>
+    a.localeCompare(b, "mn")
+  )
@@ -0,0 +1,128 @@
+import { LogEntry, LogEntryType, Winner } from "../types"
+import { sha256Hex } from "./drawEngine"
+
+// Append-only history of an event. Every entry hashes its own fields together with
+// the previous entry's hash, so editing, removing or reordering anything already
+// written breaks the chain from that point on.
+const GENESIS_HASH = "0".repeat(64)
+
+const hashEntry = (entry: Omit<LogEntry, "hash">) =>
+  sha256Hex(JSON.stringify([entry.seq, entry.type, entry.at, entry.data, entry.prevHash]))
+
+export const appendLogEntry = async (
+  log: LogEntry[],
+  type: LogEntryType,
+  data: Record<string, unknown>
+): Promise<LogEntry[]> => {
+  const last = log[log.length - 1]
+  const entry = {
+    seq: log.length,
+    type,
+    at: Date.now(),
+    data,
+    prevHash: last ? last.hash : GENESIS_HASH,
+  }
+  return [...log, { ...entry, hash: await hashEntry(entry) }]
+}
+
+// What a draw entry records about the winner; compared field by field on load
+export const drawLogData = (winner: Winner) => ({
+  drawIndex: winner.audit?.drawIndex ?? null,
+  memberNo: winner.participant.memberNo,
+  name: winner.participant.name,
+  prizeId: winner.prize.id,
+  prizeName: winner.prize.name,
+})
+
+// `position` is the winner's place in the event's winner list
+export const voidLogData = (winner: Winner, position: number) => ({
+  position,
+  memberNo: winner.participant.memberNo,
+  name: winner.participant.name,
+  prizeId: winner.prize.id,
+  reason: winner.voided?.reason || "",
+})
+
+type DrawLogData = ReturnType<typeof drawLogData> & { voided?: boolean }
+
+// Winners recorded before the log existed are written as one entry each, in order
+export const createLogFromWinners = async (winners: Winner[]) => {
+  let log: LogEntry[] = []
+  for (const winner of winners) {
+    log = await appendLogEntry(log, "draw", { ...drawLogData(winner), migrated: true })
+  }
+  return log
+}
+
+export interface LogCheck {
+  ok: boolean
+  // Index of the first entry whose hash does not match, null when the chain holds
+  brokenAt: number | null
+  problems: string[]
+}
+
+// Replays the log into the winner list it describes and compares it with the saved one.
+// `winners` should include a pending (saved but unrevealed) draw, since it is logged.
+export const checkLog = async (log: LogEntry[], winners: Winner[]): Promise<LogCheck> => {
+  const problems: string[] = []
+  let brokenAt: number | null = null
+  let prevHash = GENESIS_HASH
+  for (let i = 0; i < log.length; i++) {
+    const { hash, ...entry } = log[i]
+    if (
+      entry.seq !== i ||
+      entry.prevHash !== prevHash ||
+      (await hashEntry(entry)) !== hash
+    ) {
+      brokenAt = i
+      problems.push(`Бүртгэлийн #${i + 1} мөр өөрчлөгдсөн эсвэл устгагдсан байна`)
+      break
+    }
+    prevHash = hash
+  }
+
+  let recorded: DrawLogData[] = []
+  for (const entry of log) {
+    if (entry.type === "draw") recorded.push(entry.data as DrawLogData)
+    if (entry.type === "reset") recorded = []
+    if (entry.type === "redraw") {
+      const { position } = entry.data as ReturnType<typeof voidLogData>
+      if (recorded[position]) recorded[position] = { ...recorded[position], voided: true }
+    }
+  }
+
+  if (recorded.length !== winners.length) {
+    problems.push(
+      `Бүртгэлд ${recorded.length} азтан байгаа ч хадгалсан жагсаалтад ${winners.length} байна`
+    )
+  }
+  winners.forEach((winner, i) => {
+    const expected = recorded[i]
+    if (!expected) return
+    if (
+      expected.memberNo !== winner.participant.memberNo ||
+      expected.name !== winner.participant.name
+    ) {
+      problems.push(
+        `#${i + 1} азтан бүртгэлд ${expected.name} боловч ${winner.participant.name} болж өөрчлөгдсөн`
+      )
+    }
+    if (
+      expected.prizeId !== winner.prize.id ||
+      expected.prizeName !== winner.prize.name
+    ) {
+      problems.push(
+        `#${i + 1} азтаны шагнал бүртгэлд "${expected.prizeName}" боловч "${winner.prize.name}" болж өөрчлөгдсөн`
+      )
+    }
+    if (!!expected.voided !== !!winner.voided) {
+      problems.push(
+        expected.voided
+          ? `#${i + 1} азтан бүртгэлд хүчингүй болсон боловч дахин хүчинтэй болгосон`
+          : `#${i + 1} азтаныг бүртгэлгүйгээр хүчингүй болгосон`
+      )
+    }
+  })
+
+  return { ok: problems.length === 0, brokenAt, problems }
+}
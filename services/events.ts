@@ -0,0 +1,62 @@
+import { DrawState, LotteryEvent } from "../types"
+import {
+  DEFAULT_DRAW_PLAN,
+  DEFAULT_EVENT_NAME,
+  DEFAULT_PARTICIPANTS,
+  DEFAULT_PRIZES,
+  DEFAULT_SOUND,
+} from "../constants"
+import { parseParticipants } from "./participants"
+import { generateSeed } from "./drawEngine"
+
+export const todayIsoDate = () => new Date().toISOString().slice(0, 10)
+
+const createEventId = () =>
+  `evt-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+
+// The built-in template: the participant and prize lists shipped in constants.tsx
+export const createDefaultDrawState = (): DrawState => ({
+  participants: parseParticipants(DEFAULT_PARTICIPANTS).participants,
+  acknowledgedIssues: [],
+  exclusions: [],
+  prizes: DEFAULT_PRIZES,
+  drawPlan: DEFAULT_DRAW_PLAN,
+  sound: DEFAULT_SOUND,
+  winners: [],
+  pendingDraw: null,
+  seed: generateSeed(),
+  seedPublished: false,
+  log: [],
+})
+
+// A new event copies the template's lists and settings but never its winners or seed
+export const createEvent = (
+  name: string,
+  date: string,
+  template: DrawState = createDefaultDrawState()
+): LotteryEvent => ({
+  id: createEventId(),
+  name: name.trim() || DEFAULT_EVENT_NAME,
+  date,
+  archived: false,
+  createdAt: Date.now(),
+  participants: template.participants,
+  acknowledgedIssues: template.acknowledgedIssues,
+  exclusions: template.exclusions,
+  prizes: template.prizes,
+  drawPlan: template.drawPlan,
+  sound: template.sound,
+  winners: [],
+  pendingDraw: null,
+  seed: generateSeed(),
+  seedPublished: false,
+  log: [],
+})
+
+// Revealed winners plus any saved but not yet revealed; the log covers both
+export const drawnWinners = (event: DrawState) => [
+  ...event.winners,
+  ...(event.pendingDraw || []),
+]
+
+export const eventYear = (event: LotteryEvent) => event.date.slice(0, 4)
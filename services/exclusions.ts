@@ -0,0 +1,49 @@
+import { Exclusion, LotteryEvent, Participant } from "../types"
+import { ImportedRow } from "./participantImport"
+import { prizeWinners } from "./prizes"
+
+// People who stay on the participant list but cannot be drawn: fund staff, last
+// event's winners and the like. Matching is by member number.
+
+export const STAFF_REASON = "Сангийн ажилтан"
+
+export const exclusionsFromRows = (rows: ImportedRow[], reason: string): Exclusion[] =>
+  rows.map((r) => ({
+    memberNo: r.memberNo,
+    name: `${r.name}-${r.memberNo}`,
+    reason: reason.trim() || STAFF_REASON,
+  }))
+
+export const exclusionsFromWinners = (event: LotteryEvent): Exclusion[] =>
+  prizeWinners(event.winners).map((w) => ({
+    memberNo: w.participant.memberNo,
+    name: w.participant.name,
+    reason: `"${event.name}" (${event.date}) арга хэмжээний азтан`,
+    sourceEventId: event.id,
+  }))
+
+// Keeps the first reason recorded for anyone listed twice
+export const mergeExclusions = (existing: Exclusion[], added: Exclusion[]) => {
+  const seen = new Set(existing.map((e) => e.memberNo))
+  const merged = [...existing]
+  added.forEach((exclusion) => {
+    if (seen.has(exclusion.memberNo)) return
+    seen.add(exclusion.memberNo)
+    merged.push(exclusion)
+  })
+  return merged
+}
+
+export const exclusionIndex = (exclusions: Exclusion[]) =>
+  new Map(exclusions.map((e) => [e.memberNo, e]))
+
+// The list the draw actually runs on. The commitment, the seeded picks and the
+// verification data all use it, so an exclusion can't be slipped in after publishing.
+export const drawableParticipants = (
+  participants: Participant[],
+  exclusions: Exclusion[]
+) => {
+  if (exclusions.length === 0) return participants
+  const excluded = exclusionIndex(exclusions)
+  return participants.filter((p) => !excluded.has(p.memberNo))
+}
@@ -0,0 +1,201 @@
+import {
+  Commitment,
+  DrawOrder,
+  DrawPlanSettings,
+  LotteryEvent,
+  Participant,
+  Prize,
+  PrizeEligibility,
+  RepeatWinnerPolicy,
+  Winner,
+} from "../types"
+import { orderForDraw, sha256Hex, verifyWinners } from "./drawEngine"
+import { parseParticipants, ticketsOf } from "./participants"
+import { drawableParticipants } from "./exclusions"
+
+// Commit–reveal: before the first draw the app publishes
+//   participantsHash = SHA-256(list)
+//   rulesHash        = SHA-256(rules)
+//   commitment       = SHA-256(list + "\n" + rules + "\n" + seed)
+// where `list` is the participant names in draw order, one per line, with "*N" after
+// anyone holding N > 1 tickets, then " #tags" and " @pool" when set, and `rules` is
+// the draw plan on one line followed by one line per prize in list order. The seed
+// stays secret until the event is over; once it is revealed anyone can recompute the
+// hashes and replay every draw.
+
+const canonicalLine = (p: Participant) => {
+  let line = ticketsOf(p) > 1 ? `${p.name}*${ticketsOf(p)}` : p.name
+  if (p.tags?.length) line += ` #${[...p.tags].sort().join(",")}`
+  if (p.pool) line += ` @${p.pool}`
+  return line
+}
+
+export const canonicalParticipantList = (participants: Participant[]) =>
+  orderForDraw(participants).map(canonicalLine).join("\n")
+
+// The parts of the draw plan that decide who wins; the reveal style is only a look
+export type CommittedPlan = Pick<
+  DrawPlanSettings,
+  "order" | "allowAdHoc" | "repeatPolicy"
+>
+
+// "+tags -tags from-to,... @pool", each part only when set
+const canonicalEligibility = (rules: PrizeEligibility | null | undefined) => {
+  if (!rules) return ""
+  const parts: string[] = []
+  if (rules.includeTags.length) parts.push(`+${[...rules.includeTags].sort().join(",")}`)
+  if (rules.excludeTags.length) parts.push(`-${[...rules.excludeTags].sort().join(",")}`)
+  if (rules.memberNoRanges.length) {
+    parts.push(rules.memberNoRanges.map((r) => `${r.from}-${r.to}`).join(","))
+  }
+  if (rules.pool) parts.push(`@${rules.pool}`)
+  return parts.join(" ")
+}
+
+// "#id rank xquantity [big] name / value", then " | eligibility" when the prize has rules
+const canonicalPrize = (prize: Prize) => {
+  let line = `#${prize.id} ${prize.rank} x${prize.quantity}`
+  if (prize.isBigWinner) line += " big"
+  line += ` ${prize.name} / ${prize.value}`
+  const eligibility = canonicalEligibility(prize.eligibility)
+  return eligibility ? `${line} | ${eligibility}` : line
+}
+
+export const canonicalRules = (prizes: Prize[], plan: CommittedPlan) =>
+  [
+    `order=${plan.order} adhoc=${plan.allowAdHoc ? 1 : 0} repeat=${plan.repeatPolicy}`,
+    ...prizes.map(canonicalPrize),
+  ].join("\n")
+
+export const createCommitment = async (
+  participants: Participant[],
+  prizes: Prize[],
+  plan: CommittedPlan,
+  seed: string
+): Promise<Commitment> => {
+  const list = canonicalParticipantList(participants)
+  const rules = canonicalRules(prizes, plan)
+  return {
+    hash: await sha256Hex(`${list}\n${rules}\n${seed}`),
+    participantsHash: await sha256Hex(list),
+    rulesHash: await sha256Hex(rules),
+    createdAt: Date.now(),
+  }
+}
+
+export const BUNDLE_VERSION = 1
+
+// Everything a member needs to check the event, published after the seed is revealed
+export interface VerificationBundle {
+  version: number
+  event: string
+  date: string
+  commitment: string
+  participantsHash: string
+  rulesHash: string
+  seed: string
+  repeatPolicy: RepeatWinnerPolicy
+  drawOrder: DrawOrder
+  allowAdHoc: boolean
+  participants: string[]
+  // Member number to ticket count, for anyone holding more than one
+  tickets?: Record<string, number>
+  // Member number to tags and pool, for anyone who has them
+  attributes?: Record<string, { tags?: string[]; pool?: string }>
+  prizes: Prize[]
+  winners: { drawIndex: number; name: string; prizeId: number }[]
+}
+
+// Excluded people are left out: the published list is the one the draw ran on
+export const buildVerificationBundle = (event: LotteryEvent): VerificationBundle => {
+  const participants = drawableParticipants(event.participants, event.exclusions)
+  return {
+    version: BUNDLE_VERSION,
+    event: event.name,
+    date: event.date,
+    commitment: event.commitment?.hash || "",
+    participantsHash: event.commitment?.participantsHash || "",
+    rulesHash: event.commitment?.rulesHash || "",
+    seed: event.seed,
+    repeatPolicy: event.drawPlan.repeatPolicy,
+    drawOrder: event.drawPlan.order,
+    allowAdHoc: event.drawPlan.allowAdHoc,
+    participants: participants.map((p) => p.name),
+    tickets: Object.fromEntries(
+      participants.filter((p) => ticketsOf(p) > 1).map((p) => [p.memberNo, p.tickets])
+    ),
+    attributes: Object.fromEntries(
+      participants
+        .filter((p) => p.tags?.length || p.pool)
+        .map((p) => [p.memberNo, { tags: p.tags, pool: p.pool }])
+    ),
+    prizes: event.prizes,
+    winners: event.winners.map((w, i) => ({
+      drawIndex: w.audit?.drawIndex ?? i,
+      name: w.participant.name,
+      prizeId: w.prize.id,
+    })),
+  }
+}
+
+export interface VerificationReport {
+  participantsOk: boolean
+  rulesOk: boolean
+  commitmentOk: boolean
+  draws: { drawIndex: number; name: string; expected: string | null; ok: boolean }[]
+  ok: boolean
+}
+
+export const verifyBundle = async (
+  bundle: VerificationBundle
+): Promise<VerificationReport> => {
+  if (bundle.version !== BUNDLE_VERSION) {
+    throw new Error(`Дэмжигдээгүй хувилбар: ${bundle.version}`)
+  }
+  const participants = parseParticipants(bundle.participants).participants.map((p) => ({
+    ...p,
+    ...(bundle.tickets?.[p.memberNo] && { tickets: bundle.tickets[p.memberNo] }),
+    ...bundle.attributes?.[p.memberNo],
+  }))
+  const list = canonicalParticipantList(participants)
+  const participantsOk = (await sha256Hex(list)) === bundle.participantsHash
+  const rules = canonicalRules(bundle.prizes, {
+    order: bundle.drawOrder,
+    allowAdHoc: bundle.allowAdHoc,
+    repeatPolicy: bundle.repeatPolicy,
+  })
+  const rulesOk = (await sha256Hex(rules)) === bundle.rulesHash
+  const commitmentOk =
+    (await sha256Hex(`${list}\n${rules}\n${bundle.seed}`)) === bundle.commitment
+
+  const winners = [...bundle.winners]
+    .sort((a, b) => a.drawIndex - b.drawIndex)
+    .map((w): Winner => {
+      const participant = participants.find((p) => p.name === w.name)
+      const prize = bundle.prizes.find((p) => p.id === w.prizeId)
+      if (!participant) throw new Error(`${w.name} оролцогчдын жагсаалтад алга`)
+      if (!prize) throw new Error(`${w.prizeId} дугаартай шагнал алга`)
+      return { participant, prize, drawnAt: 0 }
+    })
+
+  const checks = await verifyWinners(
+    participants,
+    winners,
+    bundle.seed,
+    bundle.repeatPolicy
+  )
+  const draws = checks.map((check, i) => ({
+    drawIndex: i,
+    name: check.winner.participant.name,
+    expected: check.expected?.name || null,
+    ok: check.ok,
+  }))
+
+  return {
+    participantsOk,
+    rulesOk,
+    commitmentOk,
+    draws,
+    ok: participantsOk && rulesOk && commitmentOk && draws.every((d) => d.ok),
+  }
+}
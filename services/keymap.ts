@@ -0,0 +1,77 @@
+import { KeyAction, Keymap } from "../types"
+import { DEFAULT_KEYMAP } from "../constants"
+
+export const KEY_ACTIONS: KeyAction[] = [
+  "advance",
+  "back",
+  "redraw",
+  "blackout",
+  "fullscreen",
+  "help",
+]
+
+export const KEY_ACTION_LABELS: Record<KeyAction, string> = {
+  advance: "Азтан тодруулах / цонх хаах",
+  back: "Сүүлийн азтныг дахин харуулах",
+  redraw: "Ирээгүй, дахин сугалах",
+  blackout: "Дэлгэц харлуулах",
+  fullscreen: "Бүтэн дэлгэц",
+  help: "Товчлол харуулах",
+}
+
+const KEY_NAMES: Record<string, string> = {
+  " ": "Space",
+  ArrowRight: "→",
+  ArrowLeft: "←",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+}
+
+// Letters match either case, so Caps Lock or Shift on a clicker doesn't matter
+export const normalizeKey = (key: string) => (key.length === 1 ? key.toLowerCase() : key)
+
+export const keyLabel = (key: string) =>
+  KEY_NAMES[key] || (key.length === 1 ? key.toUpperCase() : key)
+
+// Saved bindings over the defaults, so an action added later still has keys
+export const withDefaultKeys = (saved?: Partial<Keymap> | null): Keymap => ({
+  ...DEFAULT_KEYMAP,
+  ...saved,
+})
+
+export const actionForKey = (keymap: Keymap, key: string) =>
+  KEY_ACTIONS.find((action) => keymap[action].includes(normalizeKey(key)))
+
+// Keys typed into a field are text, not commands
+export const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+
+// A focused button or link presses itself on Space and Enter; those keys are left to it
+export const isPressKey = (target: EventTarget | null, key: string) =>
+  target instanceof HTMLElement &&
+  (key === " " || key === "Enter") &&
+  ["BUTTON", "A", "SUMMARY"].includes(target.tagName)
+
+// Only works from a key or click handler, as browsers require a user gesture
+export const toggleFullscreen = () => {
+  const request = document.fullscreenElement
+    ? document.exitFullscreen()
+    : document.documentElement.requestFullscreen()
+  request.catch((e) => console.error("Fullscreen error:", e))
+}
+
+// A key belongs to one action at a time; binding it elsewhere moves it
+export const bindKey = (keymap: Keymap, action: KeyAction, key: string): Keymap => {
+  const normalized = normalizeKey(key)
+  const next = Object.fromEntries(
+    KEY_ACTIONS.map((a) => [a, keymap[a].filter((k) => k !== normalized)])
+  ) as Keymap
+  next[action] = [...next[action], normalized]
+  return next
+}
+
+export const unbindKey = (keymap: Keymap, action: KeyAction, key: string): Keymap => ({
+  ...keymap,
+  [action]: keymap[action].filter((k) => k !== key),
+})
@@ -0,0 +1,206 @@
+import { read, utils } from "xlsx"
+import { parseTagList } from "./eligibility"
+import { parseParticipant } from "./participants"
+
+export type SheetRows = string[][]
+
+export interface ColumnMapping {
+  nameColumn: number
+  // -1 when the name column already carries the "НЭР-ДУГААР" form
+  memberNoColumn: number
+  // -1 when everyone gets a single ticket
+  ticketsColumn: number
+  // -1 when the file has no tags or pools
+  tagsColumn: number
+  poolColumn: number
+  hasHeader: boolean
+}
+
+export interface ImportedRow {
+  line: number
+  name: string
+  memberNo: string
+  tickets: number
+  tags: string[]
+  pool: string
+}
+
+export interface RejectedRow {
+  line: number
+  values: string[]
+  reason: string
+}
+
+export interface ImportResult {
+  accepted: ImportedRow[]
+  rejected: RejectedRow[]
+}
+
+export const SUPPORTED_EXTENSIONS = [".csv", ".txt", ".xlsx", ".xls"]
+
+const MEMBER_NO_PATTERN = /^\d+$/
+const TICKETS_PATTERN = /^[1-9]\d*$/
+// Keeps one row from swamping the draw and the ticket total well inside its 32-bit range
+export const MAX_TICKETS = 1000
+const NAME_WITH_MEMBER_NO = /^(.+)-(\d+)$/
+
+const getExtension = (fileName: string) => {
+  const dot = fileName.lastIndexOf(".")
+  return dot === -1 ? "" : fileName.slice(dot).toLowerCase()
+}
+
+const detectDelimiter = (firstLine: string) => {
+  const candidates = [",", ";", "\t"]
+  return candidates.reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best
+  )
+}
+
+// Minimal RFC 4180 parser: quoted fields, "" escapes and CRLF line endings.
+export const parseCsv = (text: string): SheetRows => {
+  const source = text.replace(/^\uFEFF/, "")
+  const delimiter = detectDelimiter(source.split(/\r?\n/, 1)[0] || "")
+  const rows: SheetRows = []
+  let row: string[] = []
+  let field = ""
+  let inQuotes = false
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i]
+    if (inQuotes) {
+      if (ch === '"' && source[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (ch === '"') {
+        inQuotes = false
+      } else {
+        field += ch
+      }
+    } else if (ch === '"') {
+      inQuotes = true
+    } else if (ch === delimiter) {
+      row.push(field)
+      field = ""
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && source[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += ch
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""))
+}
+
+export const readSpreadsheet = async (file: File): Promise<SheetRows> => {
+  const ext = getExtension(file.name)
+  if (!SUPPORTED_EXTENSIONS.includes(ext)) {
+    throw new Error(`Дэмжигдээгүй файлын төрөл: ${ext || file.name}`)
+  }
+
+  let rows: SheetRows
+  if (ext === ".csv" || ext === ".txt") {
+    rows = parseCsv(await file.text())
+  } else {
+    const workbook = read(await file.arrayBuffer(), { type: "array" })
+    const sheet = workbook.Sheets[workbook.SheetNames[0]]
+    if (!sheet) throw new Error("Файлд хуудас олдсонгүй")
+    rows = utils
+      .sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: "" })
+      .map((r) => r.map((cell) => String(cell ?? "")))
+      .filter((r) => r.some((cell) => cell.trim() !== ""))
+  }
+
+  if (rows.length === 0) throw new Error("Файл хоосон байна")
+  return rows
+}
+
+// Guess which columns hold the name and member number from the header row.
+export const detectColumns = (rows: SheetRows): ColumnMapping => {
+  const header = (rows[0] || []).map((c) => c.trim().toLowerCase())
+  const nameColumn = header.findIndex((c) => /нэр|овог|name/.test(c))
+  const memberNoColumn = header.findIndex((c) =>
+    /дугаар|код|member|number|^no\.?$|^id$/.test(c)
+  )
+  const ticketsColumn = header.findIndex((c) =>
+    /тасалбар|эрх|жин|ticket|weight|entries/.test(c)
+  )
+  const tagsColumn = header.findIndex((c) => /шошго|ангилал|бүлэг|tag|group/.test(c))
+  const poolColumn = header.findIndex((c) => /^сан$|pool/.test(c))
+  const hasHeader = nameColumn !== -1 || memberNoColumn !== -1
+  const columnCount = Math.max(...rows.map((r) => r.length))
+
+  return {
+    nameColumn: nameColumn !== -1 ? nameColumn : 0,
+    memberNoColumn:
+      memberNoColumn !== -1 ? memberNoColumn : columnCount > 1 && !hasHeader ? 1 : -1,
+    ticketsColumn,
+    tagsColumn,
+    poolColumn,
+    hasHeader,
+  }
+}
+
+const normalizeName = (value: string) =>
+  value.trim().replace(/\s+/g, " ").toLocaleUpperCase("mn")
+
+export const buildImport = (rows: SheetRows, mapping: ColumnMapping): ImportResult => {
+  const accepted: ImportedRow[] = []
+  const rejected: RejectedRow[] = []
+  const seen = new Set<string>()
+  const body = mapping.hasHeader ? rows.slice(1) : rows
+  const firstLine = mapping.hasHeader ? 2 : 1
+
+  body.forEach((values, index) => {
+    const line = firstLine + index
+    const reject = (reason: string) => rejected.push({ line, values, reason })
+
+    let name = normalizeName(values[mapping.nameColumn] || "")
+    let memberNo =
+      mapping.memberNoColumn === -1 ? "" : (values[mapping.memberNoColumn] || "").trim()
+
+    const combined = name.match(NAME_WITH_MEMBER_NO)
+    if (combined && (!memberNo || memberNo === combined[2])) {
+      name = combined[1]
+      memberNo = combined[2]
+    }
+
+    if (!name) return reject("Нэр хоосон")
+    if (!memberNo) return reject("Гишүүний дугаар хоосон")
+    if (!MEMBER_NO_PATTERN.test(memberNo)) {
+      return reject(`Гишүүний дугаар буруу: "${memberNo}"`)
+    }
+
+    const ticketsValue =
+      mapping.ticketsColumn === -1 ? "" : (values[mapping.ticketsColumn] || "").trim()
+    if (ticketsValue && !TICKETS_PATTERN.test(ticketsValue)) {
+      return reject(`Тасалбарын тоо буруу: "${ticketsValue}"`)
+    }
+    if (Number(ticketsValue) > MAX_TICKETS) {
+      return reject(`Тасалбарын тоо ${MAX_TICKETS}-аас их: "${ticketsValue}"`)
+    }
+
+    const key = `${name}-${memberNo}`
+    // The app stores the parsed form, so a row it can't parse is rejected here, in view
+    if (!parseParticipant(key)) return reject(`Нэрийг задлах боломжгүй: "${name}"`)
+    if (seen.has(key)) return reject("Файл дотор давхардсан")
+    seen.add(key)
+    accepted.push({
+      line,
+      name,
+      memberNo,
+      tickets: ticketsValue ? Number(ticketsValue) : 1,
+      tags:
+        mapping.tagsColumn === -1 ? [] : parseTagList(values[mapping.tagsColumn] || ""),
+      pool: mapping.poolColumn === -1 ? "" : (values[mapping.poolColumn] || "").trim(),
+    })
+  })
+
+  return { accepted, rejected }
+}
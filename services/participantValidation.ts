@@ -0,0 +1,99 @@
+import { Participant } from "../types"
+
+export type ParticipantIssueKind = "duplicate" | "conflict" | "similar"
+
+export interface ParticipantIssue {
+  // Stable across reloads so an acknowledged "similar" pair stays acknowledged
+  key: string
+  kind: ParticipantIssueKind
+  // Positions in the participant list; duplicates share an id, so ids are not enough
+  indices: number[]
+  message: string
+}
+
+// Letters that member-system exports and hand-typed lists mix up
+const LOOKALIKES: Record<string, string> = { Е: "Э", Ё: "Э", Ө: "О", Ү: "У", Й: "И" }
+
+const foldName = (name: string) =>
+  name
+    .toLocaleUpperCase("mn")
+    .replace(/[\s.]/g, "")
+    .replace(/[ЕЁӨҮЙ]/g, (ch) => LOOKALIKES[ch])
+
+// Levenshtein distance, stopping early once it is known to exceed `max`
+const editDistance = (a: string, b: string, max: number) => {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(
+        prev[j] + 1,
+        curr[j - 1] + 1,
+        prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+      rowMin = Math.min(rowMin, curr[j])
+    }
+    if (rowMin > max) return max + 1
+    prev = curr
+  }
+  return prev[b.length]
+}
+
+const groupIndices = (participants: Participant[], keyOf: (p: Participant) => string) => {
+  const groups = new Map<string, number[]>()
+  participants.forEach((p, i) => {
+    const key = keyOf(p)
+    groups.set(key, [...(groups.get(key) || []), i])
+  })
+  return [...groups.entries()].filter(([, indices]) => indices.length > 1)
+}
+
+export const validateParticipants = (participants: Participant[]): ParticipantIssue[] => {
+  const issues: ParticipantIssue[] = []
+
+  groupIndices(participants, (p) => p.name).forEach(([name, indices]) =>
+    issues.push({
+      key: `duplicate:${name}`,
+      kind: "duplicate",
+      indices,
+      message: `${name} жагсаалтад ${indices.length} удаа орсон байна`,
+    })
+  )
+
+  groupIndices(participants, (p) => p.memberNo).forEach(([memberNo, indices]) => {
+    const names = new Set(indices.map((i) => participants[i].name))
+    if (names.size < 2) return
+    issues.push({
+      key: `conflict:${memberNo}`,
+      kind: "conflict",
+      indices,
+      message: `${memberNo} дугаар өөр нэрүүдтэй давхцсан байна`,
+    })
+  })
+
+  // Near-duplicates: entries one typo apart once look-alike letters are folded.
+  // Pairs sharing a member number are already reported as conflicts above.
+  const folded = participants.map((p) => `${foldName(p.displayName)}-${p.memberNo}`)
+  const seen = new Set<string>()
+  for (let i = 0; i < participants.length; i++) {
+    for (let j = i + 1; j < participants.length; j++) {
+      const a = participants[i]
+      const b = participants[j]
+      if (a.memberNo === b.memberNo) continue
+      if (editDistance(folded[i], folded[j], 1) > 1) continue
+      const key = `similar:${[a.name, b.name].sort().join("|")}`
+      if (seen.has(key)) continue
+      seen.add(key)
+      issues.push({
+        key,
+        kind: "similar",
+        indices: [i, j],
+        message: `${a.name} ба ${b.name} ижил хүн байж магадгүй`,
+      })
+    }
+  }
+
+  return issues
+}
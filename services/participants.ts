@@ -0,0 +1,37 @@
+import { Participant } from "../types"
+
+// "Б.ЦЭРЭН-4941", "Ч.ЭРДЭНЭ-ОЧИР-9364" or "ЦЭРЭН-4941": the member number is the
+// trailing run of digits, so hyphens inside the surname are kept.
+const PARTICIPANT_PATTERN = /^(?:([^.\s]+)\.\s*)?(.+?)-(\d+)$/
+
+export const parseParticipant = (raw: string): Participant | null => {
+  const match = raw.trim().replace(/\s+/g, " ").match(PARTICIPANT_PATTERN)
+  if (!match) return null
+  const [, initial = "", surname, memberNo] = match
+  const displayName = initial ? `${initial}.${surname}` : surname
+  return {
+    id: memberNo,
+    name: `${displayName}-${memberNo}`,
+    memberNo,
+    initial,
+    surname,
+    displayName,
+  }
+}
+
+export const ticketsOf = (participant: Participant) => participant.tickets || 1
+
+export const totalTickets = (participants: Participant[]) =>
+  participants.reduce((sum, p) => sum + ticketsOf(p), 0)
+
+// Parses a whole list, collecting the entries that do not follow "НЭР-ДУГААР".
+export const parseParticipants = (raws: string[]) => {
+  const participants: Participant[] = []
+  const invalid: string[] = []
+  raws.forEach((raw) => {
+    const parsed = parseParticipant(raw)
+    if (parsed) participants.push(parsed)
+    else invalid.push(raw)
+  })
+  return { participants, invalid }
+}
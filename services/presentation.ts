@@ -0,0 +1,64 @@
+import {
+  AppState,
+  Commitment,
+  KeyAction,
+  Keymap,
+  Participant,
+  Prize,
+  RevealStyle,
+  Winner,
+} from "../types"
+
+// The console and the projected audience window are two tabs of the same app. The
+// console owns all state and posts a snapshot on every change; the audience window
+// only renders what it last received.
+
+export const PRESENTATION_CHANNEL = "zuv_lottery_presentation"
+
+export interface AudienceState {
+  eventName: string
+  year: string
+  phase: AppState
+  nextPrize: Prize | null
+  poolSize: number
+  revealStyle: RevealStyle
+  // Step of the big-prize reveal, null when it isn't running
+  suspenseStage: number | null
+  // Only filled while a single-winner reveal is running
+  revealNames: string[]
+  drawn: Participant | null
+  revealingBatch: Winner[] | null
+  lastWinner: Winner | null
+  lastBatch: Winner[] | null
+  showWinnerModal: boolean
+  isAllFinished: boolean
+  winners: Winner[]
+  // Shown in full before the first draw; the seed joins it once revealed after the event
+  commitment: Commitment | null
+  revealedSeed: string | null
+  blackout: boolean
+  // So a clicker pointed at the audience window works there too
+  keymap: Keymap
+}
+
+export type PresentationMessage =
+  | { type: "state"; state: AudienceState }
+  // Sent by the audience window when it opens and closes
+  | { type: "hello" }
+  | { type: "bye" }
+  // A key pressed in the audience window, for the console to act on
+  | { type: "action"; action: KeyAction }
+
+export const openPresentationChannel = () =>
+  typeof BroadcastChannel === "undefined"
+    ? null
+    : new BroadcastChannel(PRESENTATION_CHANNEL)
+
+export const postPresentation = (
+  channel: BroadcastChannel | null,
+  message: PresentationMessage
+) => channel?.postMessage(message)
+
+// Lets the audience reveal keep its shuffle when a snapshot repeats the same list
+export const sameNames = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((name, i) => name === b[i])
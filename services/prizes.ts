@@ -0,0 +1,31 @@
+import { Prize, Winner } from "../types"
+
+export const totalUnits = (prizes: Prize[]) =>
+  prizes.reduce((sum, prize) => sum + prize.quantity, 0)
+
+// Winners that still hold their prize, i.e. not voided
+export const prizeWinners = (winners: Winner[]) => winners.filter((w) => !w.voided)
+
+export const wonUnits = (prize: Prize, winners: Winner[]) =>
+  prizeWinners(winners).filter((w) => w.prize.id === prize.id).length
+
+export const unitsLeft = (prize: Prize, winners: Winner[]) =>
+  Math.max(0, prize.quantity - wonUnits(prize, winners))
+
+// Prizes saved before quantities existed could only be won once
+export const normalizePrize = (
+  prize: Omit<Prize, "quantity"> & { quantity?: number }
+) => ({
+  ...prize,
+  quantity: Math.max(1, Math.floor(prize.quantity ?? 1)),
+})
+
+export const createPrize = (prizes: Prize[]): Prize => ({
+  id: Math.max(0, ...prizes.map((p) => p.id)) + 1,
+  rank: Math.max(0, ...prizes.map((p) => p.rank)) + 1,
+  name: "Шинэ шагнал",
+  value: "",
+  icon: "🎁",
+  isBigWinner: false,
+  quantity: 1,
+})
@@ -0,0 +1,117 @@
+import { AppState } from "../types"
+
+// Client side of server/remoteServer.js. The console connects from this machine with
+// the token the server printed at launch, gets the pairing code to show the host, runs
+// the commands paired phones send and reports its status back after every change.
+
+export const REMOTE_PORT = 3001
+// How often, and how many times in a row, the console looks for the server when it
+// can't reach it before leaving it to the host
+const RETRY_MS = 5000
+const MAX_RETRIES = 3
+// Close codes the server uses when a newer console connects and when it refuses this one
+const REPLACED_CODE = 4000
+const REFUSED_CODE = 4003
+
+export type RemoteCommand = "draw" | "close" | "redraw" | "next"
+
+// What a phone needs to label and enable its buttons
+export interface RemoteStatus {
+  eventName: string
+  phase: AppState
+  prize: { icon: string; name: string } | null
+  poolSize: number
+  drawCount: number
+  remaining: number
+  winnerName: string | null
+  canDraw: boolean
+  // The big-prize reveal is waiting for the next step; the draw button advances it
+  canAdvance: boolean
+  canClose: boolean
+  canRedraw: boolean
+  canNext: boolean
+}
+
+export interface RemoteSession {
+  code: string
+  // Addresses the phone can open the remote page on
+  urls: string[]
+  remotes: number
+}
+
+// Why the console stopped talking to the server; the host reconnects by hand
+export type RemoteStopReason = "unreachable" | "refused" | "replaced"
+
+type ServerMessage =
+  | ({ type: "session" } & RemoteSession)
+  | { type: "remotes"; count: number }
+  | { type: "command"; command: RemoteCommand }
+
+export const connectRemoteServer = (
+  token: string,
+  handlers: {
+    onSession: (session: RemoteSession | null) => void
+    onRemotes: (count: number) => void
+    onCommand: (command: RemoteCommand) => void
+    onStopped: (reason: RemoteStopReason) => void
+  }
+) => {
+  let socket: WebSocket | null = null
+  let retry: ReturnType<typeof setTimeout> | undefined
+  let stopped = false
+  let failures = 0
+
+  const connect = () => {
+    socket = new WebSocket(
+      `ws://localhost:${REMOTE_PORT}/?role=console&token=${encodeURIComponent(token)}`
+    )
+    socket.onmessage = (e) => {
+      let message: ServerMessage
+      try {
+        message = JSON.parse(e.data)
+      } catch (err) {
+        console.error("Remote message error:", err)
+        return
+      }
+      if (message.type === "session") {
+        failures = 0
+        handlers.onSession({
+          code: message.code,
+          urls: message.urls,
+          remotes: message.remotes,
+        })
+      } else if (message.type === "remotes") {
+        handlers.onRemotes(message.count)
+      } else if (message.type === "command") {
+        handlers.onCommand(message.command)
+      }
+    }
+    socket.onclose = (e) => {
+      socket = null
+      handlers.onSession(null)
+      if (stopped) return
+      // Retrying would only take the remote back from another console tab, or be
+      // refused again
+      if (e.code === REPLACED_CODE) handlers.onStopped("replaced")
+      else if (e.code === REFUSED_CODE) handlers.onStopped("refused")
+      else if (++failures > MAX_RETRIES) handlers.onStopped("unreachable")
+      else retry = setTimeout(connect, RETRY_MS)
+    }
+  }
+  connect()
+
+  return {
+    sendStatus: (status: RemoteStatus) => {
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify({ type: "status", status }))
+      }
+    },
+    close: () => {
+      stopped = true
+      clearTimeout(retry)
+      socket?.close()
+    },
+  }
+}
+
+export type RemoteConnection = ReturnType<typeof connectRemoteServer>
@@ -0,0 +1,19 @@
+import { DrawPlanSettings, Prize, RevealStyle } from "../types"
+import { secureShuffle } from "./drawEngine"
+
+// A prize's own style wins over the event's
+export const revealStyleFor = (
+  prize: Prize | null | undefined,
+  settings: DrawPlanSettings
+): RevealStyle => prize?.revealStyle || settings.revealStyle || "roller"
+
+// Up to `size` names for an animation to show, in random order and always including the
+// winner once one is known. Purely visual: the winner is already fixed by the draw.
+export const revealField = (names: string[], winnerName: string | null, size: number) => {
+  if (!winnerName) return secureShuffle(names).slice(0, size)
+  const others = secureShuffle(names.filter((name) => name !== winnerName))
+  return secureShuffle([winnerName, ...others.slice(0, size - 1)])
+}
+
+export const revealFieldSize = (names: string[], size: number) =>
+  Math.max(1, Math.min(size, names.length))
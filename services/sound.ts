@@ -0,0 +1,116 @@
+import { SoundSettings } from "../types"
+import { DEFAULT_SOUND } from "../constants"
+
+// Web Audio playback of the bundled cues in public/sounds. The engine only knows how
+// to play, loop and stop; App decides when, from its draw state transitions.
+
+export type SoundCue = "tick" | "drumroll" | "stinger" | "fanfare" | "bigFanfare"
+
+const SOUND_FILES: Record<SoundCue, string> = {
+  tick: "/sounds/tick.wav",
+  drumroll: "/sounds/drumroll.wav",
+  stinger: "/sounds/stinger.wav",
+  fanfare: "/sounds/fanfare.wav",
+  bigFanfare: "/sounds/fanfare-big.wav",
+}
+
+// A slowing loop ends at this fraction of its normal speed
+const SLOWEST_RATE = 0.3
+
+export const createSoundEngine = () => {
+  let context: AudioContext | null = null
+  let output: GainNode | null = null
+  let settings = DEFAULT_SOUND
+  const buffers = new Map<SoundCue, Promise<AudioBuffer | null>>()
+  const loops = new Map<SoundCue, AudioBufferSourceNode>()
+  // Bumped by every start and stop, so a loop still loading when it was stopped
+  // doesn't start afterwards
+  const loopVersions = new Map<SoundCue, number>()
+
+  const applySettings = () => {
+    if (output) output.gain.value = settings.muted ? 0 : settings.volume
+  }
+
+  // Created on first use: browsers only let audio start after a click or key press
+  const ensureContext = () => {
+    if (!context) {
+      context = new AudioContext()
+      output = context.createGain()
+      output.connect(context.destination)
+      applySettings()
+    }
+    if (context.state === "suspended") {
+      context.resume().catch((e) => console.error("Audio resume error:", e))
+    }
+    return context
+  }
+
+  const load = (cue: SoundCue) => {
+    if (!buffers.has(cue)) {
+      const audio = ensureContext()
+      buffers.set(
+        cue,
+        fetch(SOUND_FILES[cue])
+          .then((res) => {
+            if (!res.ok) throw new Error(`${SOUND_FILES[cue]}: ${res.status}`)
+            return res.arrayBuffer()
+          })
+          .then((data) => audio.decodeAudioData(data))
+          .catch((e) => {
+            console.error("Sound loading error:", e)
+            return null
+          })
+      )
+    }
+    return buffers.get(cue)
+  }
+
+  const start = async (cue: SoundCue, loop: boolean) => {
+    const buffer = await load(cue)
+    if (!buffer || !context || !output) return null
+    const source = context.createBufferSource()
+    source.buffer = buffer
+    source.loop = loop
+    source.connect(output)
+    source.start()
+    return source
+  }
+
+  const stopLoop = (cue: SoundCue) => {
+    loopVersions.set(cue, (loopVersions.get(cue) || 0) + 1)
+    loops.get(cue)?.stop()
+    loops.delete(cue)
+  }
+
+  return {
+    setSettings: (next: SoundSettings) => {
+      settings = next
+      applySettings()
+    },
+
+    play: (cue: SoundCue) => {
+      start(cue, false)
+    },
+
+    // With `slowDownMs` the loop decelerates over that time, like the reveal it plays under
+    startLoop: async (cue: SoundCue, slowDownMs?: number) => {
+      stopLoop(cue)
+      const version = loopVersions.get(cue)
+      const source = await start(cue, true)
+      if (!source) return
+      if (loopVersions.get(cue) !== version) return source.stop()
+      loops.set(cue, source)
+      if (slowDownMs && context) {
+        source.playbackRate.setValueAtTime(1, context.currentTime)
+        source.playbackRate.exponentialRampToValueAtTime(
+          SLOWEST_RATE,
+          context.currentTime + slowDownMs / 1000
+        )
+      }
+    },
+
+    stopLoop,
+  }
+}
+
+export type SoundEngine = ReturnType<typeof createSoundEngine>
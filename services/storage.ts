@@ -0,0 +1,217 @@
+import { DrawPlanSettings, Keymap, LotteryEvent, Winner } from "../types"
+import {
+  APP_STORAGE_KEY,
+  DEFAULT_DRAW_PLAN,
+  DEFAULT_EVENT_NAME,
+  DRAW_PLAN_STORAGE_KEY,
+  PARTICIPANTS_STORAGE_KEY,
+  PARTICIPANT_REVIEW_STORAGE_KEY,
+  PRIZES_STORAGE_KEY,
+} from "../constants"
+import { parseParticipant, parseParticipants } from "./participants"
+import { normalizePrize } from "./prizes"
+import { createDefaultDrawState, createEvent, todayIsoDate } from "./events"
+import { createLogFromWinners } from "./eventLog"
+
+// --- Schema ---
+// v3: cookie payload `{ winners }` under APP_STORAGE_KEY, plus the localStorage keys
+//     for participants, review acknowledgements, prizes and the draw plan.
+// v4: one IndexedDB record holding the named events, each with its own DrawState,
+//     and the active event id.
+export const SCHEMA_VERSION = 4
+
+export interface StoredEvents {
+  activeEventId: string
+  events: LotteryEvent[]
+  // Presenter key bindings; the defaults apply while none are saved
+  keymap?: Keymap
+}
+
+export interface PersistedState extends StoredEvents {
+  schemaVersion: number
+}
+
+const DB_NAME = "zuv_lottery"
+const DB_VERSION = 1
+const STORE_NAME = "state"
+const RECORD_KEY = "current"
+
+export const createDefaultState = (): StoredEvents => {
+  const event = createEvent(DEFAULT_EVENT_NAME, todayIsoDate())
+  return { activeEventId: event.id, events: [event] }
+}
+
+// --- Legacy (v3) sources ---
+const getCookie = (name: string) => {
+  return document.cookie.split("; ").reduce((r, v) => {
+    const parts = v.split("=")
+    return parts[0] === name ? decodeURIComponent(parts[1]) : r
+  }, "")
+}
+
+const deleteCookie = (name: string) => {
+  document.cookie = `${name}=; expires=${new Date(0).toUTCString()}; path=/; SameSite=Lax`
+}
+
+const LEGACY_LOCAL_KEYS = [
+  PARTICIPANTS_STORAGE_KEY,
+  PARTICIPANT_REVIEW_STORAGE_KEY,
+  PRIZES_STORAGE_KEY,
+  DRAW_PLAN_STORAGE_KEY,
+]
+
+const readLegacyJson = (read: () => string | null) => {
+  try {
+    const raw = read()
+    return raw ? JSON.parse(raw) : undefined
+  } catch (e) {
+    console.error("Legacy state parse error:", e)
+    return undefined
+  }
+}
+
+const readLegacyState = () => {
+  const cookie = readLegacyJson(() => getCookie(APP_STORAGE_KEY) || null)
+  const local = Object.fromEntries(
+    LEGACY_LOCAL_KEYS.map((key) => [key, readLegacyJson(() => localStorage.getItem(key))])
+  )
+  if (!cookie && Object.values(local).every((v) => v === undefined)) return null
+  return {
+    schemaVersion: 3,
+    winners: cookie?.winners,
+    participants: local[PARTICIPANTS_STORAGE_KEY],
+    acknowledgedIssues: local[PARTICIPANT_REVIEW_STORAGE_KEY],
+    prizes: local[PRIZES_STORAGE_KEY],
+    drawPlan: local[DRAW_PLAN_STORAGE_KEY],
+  }
+}
+
+const clearLegacyState = () => {
+  deleteCookie(APP_STORAGE_KEY)
+  LEGACY_LOCAL_KEYS.forEach((key) => localStorage.removeItem(key))
+}
+
+// --- Migration ---
+// v3 is the cookie and localStorage values as read, any of them missing
+interface V3State {
+  schemaVersion: 3
+  winners?: Winner[]
+  participants?: { name: string }[]
+  acknowledgedIssues?: string[]
+  prizes?: Parameters<typeof normalizePrize>[0][]
+  drawPlan?: Partial<DrawPlanSettings>
+}
+
+// Winners saved before member numbers were parsed carry a positional `p-${i}` id
+const migrateWinner = (winner: Winner): Winner =>
+  winner.participant.memberNo
+    ? winner
+    : {
+        ...winner,
+        participant: parseParticipant(winner.participant.name) || winner.participant,
+      }
+
+// The v3 values become one event, dated by its first draw. Every v3 draw excluded past
+// winners with the name roller, which the default plan keeps. Those draws used
+// Math.random and cannot be replayed: the event's new seed only covers draws from
+// here on, and its log starts from the winners as they stood at the upgrade.
+const migrateV3 = async (state: V3State): Promise<PersistedState> => {
+  const defaults = createDefaultDrawState()
+  const names = state.participants?.map((p) => p.name)
+  const winners = (state.winners || []).map(migrateWinner)
+  const firstDraw = Math.min(...winners.map((w) => w.drawnAt))
+  const date = Number.isFinite(firstDraw)
+    ? new Date(firstDraw).toISOString().slice(0, 10)
+    : todayIsoDate()
+  const event: LotteryEvent = {
+    ...createEvent(DEFAULT_EVENT_NAME, date, defaults),
+    participants: names ? parseParticipants(names).participants : defaults.participants,
+    acknowledgedIssues: state.acknowledgedIssues || [],
+    prizes: state.prizes ? state.prizes.map(normalizePrize) : defaults.prizes,
+    drawPlan: { ...DEFAULT_DRAW_PLAN, ...state.drawPlan },
+    winners,
+    log: await createLogFromWinners(winners),
+  }
+  return { schemaVersion: SCHEMA_VERSION, activeEventId: event.id, events: [event] }
+}
+
+export const migrateState = async (payload: unknown): Promise<PersistedState> => {
+  if (!payload || typeof payload !== "object") {
+    throw new Error("Хадгалсан өгөгдөл буруу байна")
+  }
+  // Payloads from before the version was recorded are the v3 layout
+  const { schemaVersion = 3 } = payload as { schemaVersion?: unknown }
+  if (typeof schemaVersion === "number" && schemaVersion > SCHEMA_VERSION) {
+    throw new Error(
+      `Хадгалсан өгөгдөл шинэ хувилбарынх байна (v${schemaVersion}). Аппаа шинэчилнэ үү.`
+    )
+  }
+  if (schemaVersion === 3) return migrateV3(payload as V3State)
+  if (schemaVersion !== SCHEMA_VERSION) {
+    throw new Error(`v${schemaVersion} схемийг хөрвүүлэх боломжгүй`)
+  }
+  return payload as PersistedState
+}
+
+// --- IndexedDB ---
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME)
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    dbPromise.catch(() => (dbPromise = null))
+  }
+  return dbPromise
+}
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+) => {
+  const db = await openDb()
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode)
+    const request = operation(transaction.objectStore(STORE_NAME))
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onerror = () => reject(transaction.error || request.error)
+    transaction.onabort = () => reject(transaction.error || request.error)
+  })
+}
+
+const describeError = (e: unknown) => {
+  if (e instanceof DOMException && e.name === "QuotaExceededError") {
+    return "хөтчийн санах ой дүүрсэн байна"
+  }
+  return e instanceof Error ? e.message : String(e)
+}
+
+export const loadState = async (): Promise<PersistedState | null> => {
+  const stored = await runRequest("readonly", (store) => store.get(RECORD_KEY))
+  if (stored) {
+    const migrated = await migrateState(stored)
+    if (migrated.schemaVersion !== stored.schemaVersion) await saveState(migrated)
+    return migrated
+  }
+
+  const legacy = readLegacyState()
+  if (!legacy) return null
+  const migrated = await migrateState(legacy)
+  await saveState(migrated)
+  clearLegacyState()
+  return migrated
+}
+
+export const saveState = async (state: StoredEvents) => {
+  const record: PersistedState = { ...state, schemaVersion: SCHEMA_VERSION }
+  try {
+    await runRequest("readwrite", (store) => store.put(record, RECORD_KEY))
+  } catch (e) {
+    console.error("State saving error:", e)
+    throw new Error(`Хадгалж чадсангүй: ${describeError(e)}`)
+  }
+}
@@ -0,0 +1,71 @@
+import { LotteryEvent, Winner } from "../types"
+
+// One row per winner in the finance/compliance report
+export interface WinnerReportRow {
+  no: number
+  memberNo: string
+  name: string
+  prize: string
+  value: string
+  drawnAt: string
+  // Reason the result was voided, empty while it stands
+  voided: string
+}
+
+const CSV_HEADER = [
+  "№",
+  "Гишүүний дугаар",
+  "Нэр",
+  "Шагнал",
+  "Үнэ цэнэ",
+  "Огноо",
+  "Хүчингүй болсон шалтгаан",
+]
+
+export const winnerReportRows = (winners: Winner[]): WinnerReportRow[] =>
+  winners.map((w, i) => ({
+    no: i + 1,
+    memberNo: w.participant.memberNo,
+    name: w.participant.displayName || w.participant.name,
+    prize: w.prize.name,
+    value: w.prize.value,
+    drawnAt: new Date(w.drawnAt).toISOString(),
+    voided: w.voided?.reason || "",
+  }))
+
+// Text from the imported sheets must not start like a formula when Excel opens it
+const FORMULA_START = /^[=+\-@\t\r]/
+
+const escapeCsvField = (value: string | number) => {
+  const text =
+    typeof value === "string" && FORMULA_START.test(value) ? `'${value}` : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// The BOM makes Excel open the Cyrillic names as UTF-8
+export const winnersToCsv = (winners: Winner[]) =>
+  "\uFEFF" +
+  [
+    CSV_HEADER,
+    ...winnerReportRows(winners).map((r) => [
+      r.no,
+      r.memberNo,
+      r.name,
+      r.prize,
+      r.value,
+      r.drawnAt,
+      r.voided,
+    ]),
+  ]
+    .map((row) => row.map(escapeCsvField).join(","))
+    .join("\r\n")
+
+export const winnersReport = (event: LotteryEvent) => ({
+  event: event.name,
+  date: event.date,
+  exportedAt: new Date().toISOString(),
+  winners: winnerReportRows(event.winners),
+})
+
+export const reportFileName = (event: LotteryEvent, extension: string) =>
+  `winners-${event.date}.${extension}`
@@ -1,7 +1,35 @@
 
 export interface Participant {
+  // Member number; stays the same when the list is edited or reordered
   id: string;
+  // Full "Б.ЦЭРЭН-4941" form as it appears on the roller
   name: string;
+  memberNo: string;
+  // Given-name initial, empty when the source had none
+  initial: string;
+  surname: string;
+  // "Б.ЦЭРЭН", without the member number
+  displayName: string;
+  // Entries in the draw, e.g. for savings or tenure; missing means one
+  tickets?: number;
+  // Lower-case labels from the import, e.g. "2026" for members who joined this year
+  tags?: string[];
+  // Named draw pool from the import; prizes can be limited to one pool
+  pool?: string;
+}
+
+// Inclusive member-number range
+export interface MemberNoRange {
+  from: number;
+  to: number;
+}
+
+// Who may win a prize; see services/eligibility.ts. Empty lists mean no restriction.
+export interface PrizeEligibility {
+  includeTags: string[];
+  excludeTags: string[];
+  memberNoRanges: MemberNoRange[];
+  pool: string | null;
 }
 
 export interface Prize {
@@ -11,6 +39,53 @@ export interface Prize {
   value: string;
   icon: string;
   isBigWinner: boolean;
+  // Identical units given away under this prize, e.g. ten vouchers
+  quantity: number;
+  eligibility?: PrizeEligibility | null;
+  // Overrides the event's reveal style for this prize
+  revealStyle?: RevealStyle | null;
+}
+
+export type PrizeTier = 'grand' | 'special' | 'regular';
+
+export type DrawOrder = 'smallestFirst' | 'grandFirst';
+
+// Who may win again: nobody, anyone (never the same prize twice), or anyone but with
+// at most one big prize
+export type RepeatWinnerPolicy = 'once' | 'differentPrizes' | 'oneBigPrize';
+
+// How a single winner is revealed: see components/RevealAnimation.tsx
+export type RevealStyle = 'roller' | 'wheel' | 'slot' | 'elimination';
+
+export interface DrawPlanSettings {
+  order: DrawOrder;
+  // Lets the host pick any remaining prize instead of following the order
+  allowAdHoc: boolean;
+  // Fixed once the first winner is drawn, since replaying the draws depends on it
+  repeatPolicy: RepeatWinnerPolicy;
+  revealStyle: RevealStyle;
+}
+
+// Everything needed to re-run one draw: see services/drawEngine.ts
+export interface DrawAudit {
+  seed: string;
+  // Number of draws made in the event before this one
+  drawIndex: number;
+  eligibleCount: number;
+  // Ticket number drawn out of `totalTickets`; equals the participant index when
+  // everyone holds one ticket
+  pickedIndex: number;
+  // Weight the winner was drawn with; missing on draws before weighted tickets
+  tickets?: number;
+  totalTickets?: number;
+  // Every uint32 consumed from the seeded stream, rejected samples included
+  rngOutput: number[];
+}
+
+// A result taken back, e.g. the winner was not present to claim the prize
+export interface WinnerVoid {
+  reason: string;
+  at: number;
 }
 
 export interface Winner {
@@ -18,8 +93,94 @@ export interface Winner {
   prize: Prize;
   drawnAt: number;
   congratsMessage?: string;
+  // Missing on winners drawn before the seeded engine
+  audit?: DrawAudit;
+  // Voided results stay in the list for the record but no longer hold the prize
+  voided?: WinnerVoid | null;
+}
+
+// Published before the first draw; see services/fairness.ts
+export interface Commitment {
+  // SHA-256 of the participant list, the prizes and draw rules, and the secret seed
+  hash: string;
+  participantsHash: string;
+  rulesHash: string;
+  createdAt: number;
 }
 
+// Someone who may not be drawn in an event; see services/exclusions.ts
+export interface Exclusion {
+  memberNo: string;
+  // As imported, "НЭР-ДУГААР"
+  name: string;
+  reason: string;
+  // Set when carried over from another event's winners
+  sourceEventId?: string;
+}
+
+// 'commit' and 'withdraw' record the commitment being published and taken back
+export type LogEntryType = 'draw' | 'reset' | 'redraw' | 'import' | 'commit' | 'withdraw';
+
+// One link in the event's hash chain; see services/eventLog.ts
+export interface LogEntry {
+  seq: number;
+  type: LogEntryType;
+  at: number;
+  data: Record<string, unknown>;
+  // Hash of the entry before this one, zeros for the first
+  prevHash: string;
+  hash: string;
+}
+
+// Everything needed to resume a draw after a reload
+export interface DrawState {
+  participants: Participant[];
+  // Keys of "similar" participant issues confirmed as different people
+  acknowledgedIssues: string[];
+  exclusions: Exclusion[];
+  prizes: Prize[];
+  drawPlan: DrawPlanSettings;
+  winners: Winner[];
+  // Picked but not yet revealed, one winner or a whole batch; saved before the
+  // animation so a reload can't lose it
+  pendingDraw?: Winner[] | null;
+  // Prize put back by a voided result; drawn next, ahead of the plan
+  redrawPrizeId?: number | null;
+  // Source of every pick in the event; replaying it reproduces the winners
+  seed: string;
+  // True when the operator entered a seed that was announced in advance
+  seedPublished: boolean;
+  // Cleared whenever the participants or seed change before the first draw
+  commitment?: Commitment | null;
+  seedRevealed?: boolean;
+  // Append-only record of draws, resets and imports
+  log: LogEntry[];
+  // Host's running notes, shown on the console only
+  notes?: string;
+  sound: SoundSettings;
+}
+
+// One draw: a quarterly member draw, the year-end party, ...
+export interface LotteryEvent extends DrawState {
+  id: string;
+  name: string;
+  // ISO date (YYYY-MM-DD) the event takes place on
+  date: string;
+  archived: boolean;
+  createdAt: number;
+}
+
+export interface SoundSettings {
+  // 0 to 1
+  volume: number;
+  muted: boolean;
+}
+
+// Presenter keys and clicker buttons, by what they do; values are KeyboardEvent.key
+export type KeyAction = 'advance' | 'back' | 'redraw' | 'blackout' | 'fullscreen' | 'help';
+
+export type Keymap = Record<KeyAction, string[]>;
+
 export enum AppState {
   SETUP = 'SETUP',
   READY = 'READY',